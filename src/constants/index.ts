@@ -8,3 +8,10 @@ export const WHITESPACE_REGEX: RegExp = /\s/;
 export const LINEBREAK_REGEX: RegExp = /[\r\n]/;
 export const BLANKLINE_END_REGEX: RegExp = /\n\r?\n$/;
 export const BLANKLINE_START_REGEX: RegExp = /^\r?\n\r?\n/;
+export const CHARACTER_CLUSTER_REGEX: RegExp = /[^]\p{M}*/uy;
+export const HTML_ATTRIBUTE_NAME_REGEX: RegExp = /^[a-z][a-z0-9-]*$/i;
+
+/**
+ * The version of the JSON schema of diffs and patches.
+ */
+export const JSON_SCHEMA_VERSION: number = 1;
@@ -2,14 +2,42 @@ import
 {
     BLANKLINE_END_REGEX,
     BLANKLINE_START_REGEX,
+    CHARACTER_CLUSTER_REGEX,
+    HTML_ATTRIBUTE_NAME_REGEX,
+    JSON_SCHEMA_VERSION,
     LINEBREAK_REGEX,
     NON_ALPHA_NUMERIC_REGEX,
     WHITESPACE_REGEX
 } from "../constants";
-import { DiffOperation } from "../types";
+import { DiffAlgorithm, DiffAnsiMode, DiffOperation, DiffStrategy, DiffUnit, DiffWhitespace, MergeHunkType } from "../types";
 import { math } from "../utils";
 import { PatchObject } from "./PatchObject";
-import type { Diff, HalfMatchArray, PatchApplyArray } from "../types";
+import type
+{
+    Diff,
+    DiffAnsiOptions,
+    DiffHtmlOptions,
+    DiffJson,
+    DiffMove,
+    DiffNode,
+    DiffResult,
+    DiffStats,
+    DiffTokenizer,
+    HalfMatchArray,
+    LineRange,
+    MergeHunk,
+    MergeLabels,
+    PatchApplyArray,
+    PatchJson,
+    SequenceDiff,
+    SimilarityMatch,
+    SimilarityOptions,
+    UnicodeNormalizationForm,
+    UnifiedDiffFile,
+    UnifiedDiffHunk,
+    UnifiedDiffOptions
+} from "../types";
+import type { DiffRun } from "../types/DiffRun";
 
 /**
  * Diff Match and Patch
@@ -51,11 +79,65 @@ export class DiffMatchPatch
      */
     public diffTimeout = 1.0;
 
+    /**
+     * Number of bisect steps to map a diff before giving up (0 for no limit).
+     * Unlike DiffTimeout, gives the same diff on every machine, and replaces
+     * DiffTimeout when set.
+     */
+    public diffBudget = 0;
+
     /**
      * Cost of an empty edit operation in terms of edit characters.
      */
     public diffEditCost = 4;
 
+    /**
+     * Algorithm used to diff the texts when the line-level speedup is enabled.
+     * `DiffAlgorithm.PATIENCE` and `DiffAlgorithm.HISTOGRAM` give cleaner
+     * alignments on source code.
+     */
+    public diffAlgorithm = DiffAlgorithm.MYERS;
+
+    /**
+     * Whitespace changes which shouldn't disturb the alignment of a diff, e.g.
+     * `DiffWhitespace.IGNORE_AMOUNT | DiffWhitespace.IGNORE_BLANK_LINES`.
+     * The diff still round-trips, so the ignored changes are returned as small
+     * edits of their own.
+     */
+    public diffWhitespace = DiffWhitespace.NONE;
+
+    /**
+     * Whether to ignore changes in case when diffing.
+     * Case only affects how the texts are aligned: the characters which differ in
+     * case are still returned as a deletion and an insertion.
+     */
+    public diffIgnoreCase = false;
+
+    /**
+     * Unicode normalization to apply when diffing (null for none), e.g. "NFC"
+     * to ignore the differences between composed and decomposed accents.
+     * Normalization only affects how the texts are aligned: the characters which
+     * differ in normalization are still returned as a deletion and an insertion.
+     */
+    public diffNormalization: UnicodeNormalizationForm | null = null;
+
+    /**
+     * Smallest units of text which diffs and patches may split, e.g.
+     * `DiffUnit.CODE_POINT` to never split an emoji in half.
+     */
+    public diffUnit = DiffUnit.CODE_UNIT;
+
+    /**
+     * How close a deletion and an insertion have to be to count as a move
+     * (0.0 = identical, 1.0 = very loose).
+     */
+    public diffMoveThreshold = 0.2;
+
+    /**
+     * Shortest deletion or insertion which may count as a move.
+     */
+    public diffMoveMinLength = 10;
+
     /**
      * At what point is no match declared (0.0 = perfection, 1.0 = very loose).
      */
@@ -68,6 +150,16 @@ export class DiffMatchPatch
      */
     public matchDistance = 1000;
 
+    /**
+     * Whether to ignore case when matching.
+     */
+    public matchIgnoreCase = false;
+
+    /**
+     * Unicode normalization to apply when matching (null for none).
+     */
+    public matchNormalization: UnicodeNormalizationForm | null = null;
+
     /**
      * When deleting a large block of text (over ~64 characters), how close do
      * the contents have to be to match the expected contents. (0.0 = perfection,
@@ -93,78 +185,81 @@ export class DiffMatchPatch
      *
      * @param {string} text1 Old string to be diffed.
      * @param {string} text2 New string to be diffed.
-     * @param {boolean} [optChecklines] Optional speedup flag. If present and false,
+     * @param {(boolean | DiffTokenizer)} [optChecklines] Optional speedup flag. If present and false,
      * then don't run a line-level diff first to identify the changed areas.
      * Defaults to true, which does a faster, slightly less optimal diff.
+     * If a tokenizer, then diff the texts token-by-token instead.
      * @param {number} [optDeadline] Optional time when the diff should be complete
      * by. Used internally for recursive calls. Users should set DiffTimeout
      * instead.
      * @returns {Diff[]} Array of diff tuples.
      */
-    public diff_main(text1: string, text2: string, optChecklines?: boolean, optDeadline?: number): Diff[]
+    public diff_main(
+        text1: string,
+        text2: string,
+        optChecklines?: boolean | DiffTokenizer,
+        optDeadline?: number
+    ): Diff[]
     {
-        // Set a deadline by which time the diff must be complete.
-        if (typeof optDeadline === "undefined")
-        {
-            if (this.diffTimeout <= 0)
-            {
-                optDeadline = Number.MAX_VALUE;
-            }
-            else
-            {
-                optDeadline = Date.now() + this.diffTimeout * 1000;
-            }
-        }
-        const deadline = optDeadline;
-
-        // Check for null inputs.
-        if (text1 == null || text2 == null)
-        {
-            throw new Error("Null input. (diff_main)");
-        }
-
-        // Check for equality (speedup).
-        if (text1 === text2)
-        {
-            if (text1)
-            {
-                return [[DiffOperation.DIFF_EQUAL, text1]];
-            }
-            return [];
-        }
-
-        if (typeof optChecklines === "undefined")
-        {
-            optChecklines = true;
-        }
-        const checklines = optChecklines;
-
-        // Trim off common prefix (speedup).
-        let commonlength = this.diff_commonPrefix(text1, text2);
-        const commonprefix = text1.substring(0, commonlength);
-        text1 = text1.substring(commonlength);
-        text2 = text2.substring(commonlength);
-
-        // Trim off common suffix (speedup).
-        commonlength = this.diff_commonSuffix(text1, text2);
-        const commonsuffix = text1.substring(text1.length - commonlength);
-        text1 = text1.substring(0, text1.length - commonlength);
-        text2 = text2.substring(0, text2.length - commonlength);
+        return this.diff_runSteps_(this.diff_normalizedSteps_(
+            text1,
+            text2,
+            optChecklines,
+            this.diff_newRun_(optDeadline),
+            this.diffWhitespace
+        ));
+    }
 
-        // Compute the diff on the middle block.
-        const diffs: Diff[] = this.diff_compute_(text1, text2, checklines, deadline);
+    /**
+     * Find the differences between two texts like diff_main, without blocking
+     * the event loop. The diff yields to other tasks every few milliseconds, and
+     * can be cancelled through an AbortSignal.
+     * DiffTimeout still applies, including the time spent waiting on other tasks.
+     *
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @param {(boolean | DiffTokenizer)} [optChecklines] Optional speedup flag,
+     * see diff_main.
+     * @param {AbortSignal} [optSignal] Optional signal to cancel the diff with.
+     * @returns {Promise<Diff[]>} Array of diff tuples.
+     * Rejects with the reason of the signal if cancelled.
+     */
+    public async diff_mainAsync(
+        text1: string,
+        text2: string,
+        optChecklines?: boolean | DiffTokenizer,
+        optSignal?: AbortSignal
+    ): Promise<Diff[]>
+    {
+        return this.diff_runStepsAsync_(
+            this.diff_normalizedSteps_(text1, text2, optChecklines, this.diff_newRun_(), this.diffWhitespace),
+            optSignal
+        );
+    }
 
-        // Restore the prefix and suffix.
-        if (commonprefix)
-        {
-            diffs.unshift([DiffOperation.DIFF_EQUAL, commonprefix]);
-        }
-        if (commonsuffix)
-        {
-            diffs.push([DiffOperation.DIFF_EQUAL, commonsuffix]);
-        }
-        this.diff_cleanupMerge(diffs);
-        return diffs;
+    /**
+     * Find the differences between two texts like diff_main, and report how the
+     * diff was computed, e.g. to log the diffs which ran out of time and retry
+     * them with a bigger DiffTimeout or DiffBudget.
+     *
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @param {(boolean | DiffTokenizer)} [optChecklines] Optional speedup flag,
+     * see diff_main.
+     * @returns {DiffResult} Array of diff tuples, whether the diff was cut short,
+     * the time it took and the strategies it used.
+     */
+    public diff_mainWithMetadata(text1: string, text2: string, optChecklines?: boolean | DiffTokenizer): DiffResult
+    {
+        const startTime = Date.now();
+        const run = this.diff_newRun_();
+        const diffs = this.diff_runSteps_(this.diff_normalizedSteps_(text1, text2, optChecklines, run, this.diffWhitespace));
+        return {
+            diffs,
+            truncated: run.truncated,
+            elapsed: Date.now() - startTime,
+            strategies: run.strategies
+        };
     }
 
     /**
@@ -382,6 +477,7 @@ export class DiffMatchPatch
             }
             pointer++;
         }
+        this.diff_cleanupUnits(diffs);
     }
 
     /**
@@ -464,6 +560,7 @@ export class DiffMatchPatch
             }
             pointer++;
         }
+        this.diff_cleanupUnits(diffs);
     }
 
     /**
@@ -585,234 +682,461 @@ export class DiffMatchPatch
      */
     public diff_cleanupMerge(diffs: Diff[]): void
     {
-        // Add a dummy entry at the end.
-        diffs.push([DiffOperation.DIFF_EQUAL, ""]);
+        this.diff_mergeEdits_(diffs);
+        this.diff_cleanupUnits(diffs);
+    }
 
-        let pointer = 0;
-        let countDelete = 0;
-        let countInsert = 0;
-        let textDelete = "";
-        let textInsert = "";
-        let commonlength: number;
-        while (pointer < diffs.length)
+    /**
+     * Realign a diff so that it doesn't split any unit of text, see DiffUnit.
+     * The cleanups and diff_main already do this, so it's only needed for the
+     * diffs built by hand.
+     * e.g. \uD83D<del>\uDE00</del><ins>\uDE03</ins>
+     *   -> <del>\uD83D\uDE00</del><ins>\uD83D\uDE03</ins>
+     *
+     * @param {Diff[]} diffs Array of diff tuples.
+     */
+    public diff_cleanupUnits(diffs: Diff[]): void
+    {
+        if (this.diffUnit === DiffUnit.CODE_UNIT)
         {
-            switch (diffs[pointer][0])
+            return;
+        }
+        this.diff_alignBoundaries_(
+            diffs,
+            this.diff_unitBoundaries_(this.diff_text1(diffs)),
+            this.diff_unitBoundaries_(this.diff_text2(diffs))
+        );
+    }
+
+    /**
+     * loc is a location in text1, compute and return the equivalent location in
+     * text2.
+     * e.g. 'The cat' vs 'The big cat', 1->1, 5->8
+     *
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @param {number} loc Location within text1.
+     * @returns {number} Location within text2.
+     */
+    public diff_xIndex(diffs: Diff[], loc: number): number
+    {
+        let chars1 = 0;
+        let chars2 = 0;
+        let lastChars1 = 0;
+        let lastChars2 = 0;
+        let x;
+        for (x = 0; x < diffs.length; x++)
+        {
+            if (diffs[x][0] !== DiffOperation.DIFF_INSERT)
+            {
+                // Equality or deletion.
+                chars1 += diffs[x][1].length;
+            }
+            if (diffs[x][0] !== DiffOperation.DIFF_DELETE)
+            {
+                // Equality or insertion.
+                chars2 += diffs[x][1].length;
+            }
+            if (chars1 > loc)
+            {
+                // Overshot the location.
+                break;
+            }
+            lastChars1 = chars1;
+            lastChars2 = chars2;
+        }
+        // Was the location was deleted?
+        if (diffs.length !== x &&
+            diffs[x][0] === DiffOperation.DIFF_DELETE)
+        {
+            return lastChars2;
+        }
+        // Add the remaining character length.
+        return lastChars2 + (loc - lastChars1);
+    }
+
+    /**
+     * Convert a diff array into a pretty HTML report.
+     *
+     * @param {Diff[]>} diffs Array of diff tuples.
+     * @returns {string} HTML representation.
+     */
+    public diff_prettyHtml(diffs: Diff[]): string
+    {
+        const html = [];
+        const patternPARA = /\n/g;
+        for (let x = 0; x < diffs.length; x++)
+        {
+            const op = diffs[x][0]; // Operation (insert, delete, equal)
+            const data = diffs[x][1]; // Text of change.
+            const text = this.diff_escapeHtml_(data).replace(patternPARA, "&para;<br>");
+            switch (op)
             {
                 case DiffOperation.DIFF_INSERT:
-                    countInsert++;
-                    textInsert += diffs[pointer][1];
-                    pointer++;
+                    html[x] = '<ins style="background:#e6ffe6;">' + text + "</ins>";
                     break;
                 case DiffOperation.DIFF_DELETE:
-                    countDelete++;
-                    textDelete += diffs[pointer][1];
-                    pointer++;
+                    html[x] = '<del style="background:#ffe6e6;">' + text + "</del>";
                     break;
                 case DiffOperation.DIFF_EQUAL:
-                    // Upon reaching an equality, check for prior redundancies.
-                    if (countDelete + countInsert > 1)
+                    html[x] = "<span>" + text + "</span>";
+                    break;
+            }
+        }
+        return html.join("");
+    }
+
+    /**
+     * Convert a diff array into an HTML report, which can be styled by CSS.
+     * Unlike diff_prettyHtml, no inline styles are written, and the elements,
+     * classes and the rendering of whitespace can be chosen.
+     *
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @param {DiffHtmlOptions} [optOptions] Optional options of the rendering.
+     * Defaults to `<ins class="diff-insert">`, `<del class="diff-delete">` and
+     * `<span class="diff-equal">`, with each newline written as "&para;<br>".
+     * Options which are undefined keep their defaults.
+     * @returns {string} HTML representation.
+     * @throws {Error} If an attribute name isn't made of letters, digits and "-".
+     */
+    public diff_html(diffs: Diff[], optOptions?: DiffHtmlOptions): string
+    {
+        const options = this.diff_htmlOptions_(optOptions);
+        const html = [];
+        for (let x = 0; x < diffs.length; x++)
+        {
+            html[x] = this.diff_htmlElement_(diffs[x][0], diffs[x][1], options);
+        }
+        return html.join("");
+    }
+
+    /**
+     * Find the differences between two texts line by line, and render them as a
+     * two-column HTML table, with the old text on the left and the new text on
+     * the right. Changed lines are paired in rows, and the characters which
+     * changed within each pair are highlighted by a second diff.
+     * No inline styles are written: the table, the line numbers, the cells of the
+     * lines and the highlighted characters have the classes of the options, so
+     * that they can be styled by CSS, e.g. with `white-space: pre`.
+     *
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @param {DiffHtmlOptions} [optOptions] Optional options of the rendering,
+     * see diff_html. The newline option isn't used, as lines are split in rows.
+     * @returns {string} HTML representation.
+     * @throws {Error} If an attribute name isn't made of letters, digits and "-".
+     */
+    public diff_sideBySideHtml(text1: string, text2: string, optOptions?: DiffHtmlOptions): string
+    {
+        // Check for null inputs.
+        if (text1 == null || text2 == null)
+        {
+            throw new Error("Null input. (diff_sideBySideHtml)");
+        }
+
+        const options = this.diff_htmlOptions_(optOptions);
+        const classAttribute = (className: string) =>
+            (className ? ' class="' + this.diff_escapeHtml_(className).replace(/"/g, "&quot;") + '"' : "");
+        const html = ["<table" + classAttribute(options.tableClass) + ">"];
+        const lineText = (line: string) => line.replace(/\r?\n$/, "");
+        const whitespace: Record<string, string> = { " ": options.space, "\t": options.tab };
+        const escape = (text: string) => this.diff_escapeHtml_(text).replace(/[ \t]/g, (char) => whitespace[char]);
+        const classes: Record<DiffOperation, string> = {
+            [DiffOperation.DIFF_DELETE]: options.lineDeleteClass,
+            [DiffOperation.DIFF_INSERT]: options.lineInsertClass,
+            [DiffOperation.DIFF_EQUAL]: options.lineEqualClass
+        };
+        const cells = (op: DiffOperation, lineNumber: number, content: string | null) =>
+        {
+            if (content === null)
+            {
+                return "<td></td><td></td>";
+            }
+            return "<td" + classAttribute(options.lineNumberClass) + ">" + lineNumber + "</td><td" + classAttribute(classes[op]) + ">"
+                + content + "</td>";
+        };
+
+        const lines = this.diff_byLine_(text1, text2);
+        let lineNumber1 = 0;
+        let lineNumber2 = 0;
+        let pointer = 0;
+        while (pointer < lines.length)
+        {
+            if (lines[pointer][0] === DiffOperation.DIFF_EQUAL)
+            {
+                const content = escape(lineText(lines[pointer][1]));
+                html.push(
+                    "<tr>",
+                    cells(DiffOperation.DIFF_EQUAL, ++lineNumber1, content),
+                    cells(DiffOperation.DIFF_EQUAL, ++lineNumber2, content),
+                    "</tr>"
+                );
+                pointer++;
+                continue;
+            }
+
+            // Collect the lines of the change, deletions come before insertions.
+            const deletions: string[] = [];
+            const insertions: string[] = [];
+            while (pointer < lines.length && lines[pointer][0] !== DiffOperation.DIFF_EQUAL)
+            {
+                (lines[pointer][0] === DiffOperation.DIFF_DELETE ? deletions : insertions).push(lineText(lines[pointer][1]));
+                pointer++;
+            }
+
+            for (let x = 0; x < math.max(deletions.length, insertions.length); x++)
+            {
+                let content1: string | null = null;
+                let content2: string | null = null;
+                if (x < deletions.length && x < insertions.length)
+                {
+                    // Highlight the characters which changed within the pair of lines.
+                    const diffs = this.diff_main(deletions[x], insertions[x], false);
+                    this.diff_cleanupSemantic(diffs);
+                    content1 = "";
+                    content2 = "";
+                    for (let y = 0; y < diffs.length; y++)
                     {
-                        if (countDelete !== 0 && countInsert !== 0)
+                        const [op, data] = diffs[y];
+                        switch (op)
                         {
-                            // Factor out any common prefixes.
-                            commonlength = this.diff_commonPrefix(textInsert, textDelete);
-                            if (commonlength !== 0)
-                            {
-                                if ((pointer - countDelete - countInsert) > 0 &&
-                                    (
-                                        diffs[pointer - countDelete - countInsert - 1][0]
-                                        === DiffOperation.DIFF_EQUAL
-                                    )
-                                )
-                                {
-                                    diffs[pointer - countDelete - countInsert - 1][1]
-                                        += textInsert.substring(0, commonlength);
-                                }
-                                else
-                                {
-                                    diffs.splice(
-                                        0,
-                                        0,
-                                        [DiffOperation.DIFF_EQUAL, textInsert.substring(0, commonlength)]
-                                    );
-                                    pointer++;
-                                }
-                                textInsert = textInsert.substring(commonlength);
-                                textDelete = textDelete.substring(commonlength);
-                            }
-                            // Factor out any common suffixes.
-                            commonlength = this.diff_commonSuffix(textInsert, textDelete);
-                            if (commonlength !== 0)
-                            {
-                                diffs[pointer][1] = textInsert.substring(textInsert.length
-                                    - commonlength) + diffs[pointer][1];
-                                textInsert = textInsert.substring(0, textInsert.length - commonlength);
-                                textDelete = textDelete.substring(0, textDelete.length - commonlength);
-                            }
-                        }
-                        // Delete the offending records and add the merged ones.
-                        pointer -= countDelete + countInsert;
-                        diffs.splice(pointer, countDelete + countInsert);
-                        if (textDelete.length)
-                        {
-                            diffs.splice(pointer, 0, [DiffOperation.DIFF_DELETE, textDelete]);
-                            pointer++;
-                        }
-                        if (textInsert.length)
-                        {
-                            diffs.splice(pointer, 0, [DiffOperation.DIFF_INSERT, textInsert]);
-                            pointer++;
+                            case DiffOperation.DIFF_INSERT:
+                                content2 += this.diff_htmlElement_(op, data, options);
+                                break;
+                            case DiffOperation.DIFF_DELETE:
+                                content1 += this.diff_htmlElement_(op, data, options);
+                                break;
+                            case DiffOperation.DIFF_EQUAL:
+                                content1 += escape(data);
+                                content2 += escape(data);
+                                break;
                         }
-                        pointer++;
-                    }
-                    else if (pointer !== 0 && diffs[pointer - 1][0] === DiffOperation.DIFF_EQUAL)
-                    {
-                        // Merge this equality with the previous one.
-                        diffs[pointer - 1][1] += diffs[pointer][1];
-                        diffs.splice(pointer, 1);
-                    }
-                    else
-                    {
-                        pointer++;
                     }
-                    countInsert = 0;
-                    countDelete = 0;
-                    textDelete = "";
-                    textInsert = "";
-                    break;
+                }
+                else if (x < deletions.length)
+                {
+                    content1 = escape(deletions[x]);
+                }
+                else
+                {
+                    content2 = escape(insertions[x]);
+                }
+                html.push(
+                    "<tr>",
+                    cells(DiffOperation.DIFF_DELETE, content1 === null ? 0 : ++lineNumber1, content1),
+                    cells(DiffOperation.DIFF_INSERT, content2 === null ? 0 : ++lineNumber2, content2),
+                    "</tr>"
+                );
             }
         }
-        if (diffs[diffs.length - 1][1] === "")
-        {
-            diffs.pop(); // Remove the dummy entry at the end.
-        }
+        html.push("</table>");
+        return html.join("");
+    }
 
-        // Second pass: look for single edits surrounded on both sides by equalities
-        // which can be shifted sideways to eliminate an equality.
-        // e.g: A<ins>BA</ins>C -> <ins>AB</ins>AC
-        let changes = false;
-        pointer = 1;
-        // Intentionally ignore the first and last element (don't need checking).
-        while (pointer < diffs.length - 1)
+    /**
+     * Convert a diff array into text coloured by ANSI escape codes, for terminals.
+     *
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @param {DiffAnsiOptions} [optOptions] Optional options of the rendering.
+     * Defaults to the INLINE mode, with colours and without markers.
+     * @returns {string} ANSI representation.
+     */
+    public diff_ansi(diffs: Diff[], optOptions?: DiffAnsiOptions): string
+    {
+        const options: Required<DiffAnsiOptions> = { mode: DiffAnsiMode.INLINE, color: true, markers: false, ...optOptions };
+        const text: string[] = [];
+        if (options.mode === DiffAnsiMode.INLINE)
         {
-            if (diffs[pointer - 1][0] === DiffOperation.DIFF_EQUAL &&
-                diffs[pointer + 1][0] === DiffOperation.DIFF_EQUAL)
+            for (let x = 0; x < diffs.length; x++)
             {
-                // This is a single edit surrounded by equalities.
-                if (diffs[pointer][1].substring(diffs[pointer][1].length - diffs[pointer - 1][1].length)
-                    === diffs[pointer - 1][1])
-                {
-                    // Shift the edit over the previous equality.
-                    diffs[pointer][1] = diffs[pointer - 1][1]
-                        + diffs[pointer][1].substring(
-                            0,
-                            diffs[pointer][1].length - diffs[pointer - 1][1].length
-                        );
-                    diffs[pointer + 1][1] = diffs[pointer - 1][1] + diffs[pointer + 1][1];
-                    diffs.splice(pointer - 1, 1);
-                    changes = true;
-                }
-                else if (diffs[pointer][1].substring(0, diffs[pointer + 1][1].length)
-                    === diffs[pointer + 1][1])
-                {
-                    // Shift the edit over the next equality.
-                    diffs[pointer - 1][1] += diffs[pointer + 1][1];
-                    diffs[pointer][1] = diffs[pointer][1].substring(diffs[pointer + 1][1].length)
-                        + diffs[pointer + 1][1];
-                    diffs.splice(pointer + 1, 1);
-                    changes = true;
-                }
+                text.push(this.diff_ansiChange_(diffs[x][0], diffs[x][1], options, false));
             }
-            pointer++;
+            return text.join("");
         }
-        // If shifts were made, the diff needs reordering and another shift sweep.
-        if (changes)
+
+        const lines = this.diff_lines_(diffs);
+        for (let x = 0; x < lines.length; x++)
         {
-            this.diff_cleanupMerge(diffs);
+            text.push(this.diff_ansiLine_(lines[x][0], lines[x][1], options));
         }
+        return text.join("");
     }
 
     /**
-     * loc is a location in text1, compute and return the equivalent location in
-     * text2.
-     * e.g. 'The cat' vs 'The big cat', 1->1, 5->8
+     * Convert a diff array of prose into Markdown, with the deletions struck
+     * through as `~~deleted~~` and the insertions in bold as `**inserted**`.
      *
      * @param {Diff[]} diffs Array of diff tuples.
-     * @param {number} loc Location within text1.
-     * @returns {number} Location within text2.
+     * @returns {string} Markdown representation.
      */
-    public diff_xIndex(diffs: Diff[], loc: number): number
+    public diff_markdown(diffs: Diff[]): string
     {
-        let chars1 = 0;
-        let chars2 = 0;
-        let lastChars1 = 0;
-        let lastChars2 = 0;
-        let x;
-        for (x = 0; x < diffs.length; x++)
+        const text: string[] = [];
+        for (let x = 0; x < diffs.length; x++)
         {
-            if (diffs[x][0] !== DiffOperation.DIFF_INSERT)
-            {
-                // Equality or deletion.
-                chars1 += diffs[x][1].length;
-            }
-            if (diffs[x][0] !== DiffOperation.DIFF_DELETE)
-            {
-                // Equality or insertion.
-                chars2 += diffs[x][1].length;
-            }
-            if (chars1 > loc)
+            const [op, data] = diffs[x];
+            const escaped = this.diff_escapeMarkdown_(data);
+            if (op === DiffOperation.DIFF_EQUAL)
             {
-                // Overshot the location.
-                break;
+                text.push(escaped);
+                continue;
             }
-            lastChars1 = chars1;
-            lastChars2 = chars2;
+            const marker = op === DiffOperation.DIFF_DELETE ? "~~" : "**";
+            // Emphasis can neither span lines nor start or end with whitespace.
+            text.push(escaped.replace(/[^\n]+/g, (line) => line.replace(
+                /^(\s*)(.*?)(\s*)$/,
+                (match, before: string, content: string, after: string) =>
+                    (content ? before + marker + content + marker + after : match)
+            )));
         }
-        // Was the location was deleted?
-        if (diffs.length !== x &&
-            diffs[x][0] === DiffOperation.DIFF_DELETE)
+        return text.join("");
+    }
+
+    /**
+     * Convert a diff array of lines into a fenced Markdown code block of the
+     * `diff` language, with each changed line prefixed by `-` or `+`.
+     *
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @returns {string} Markdown representation.
+     */
+    public diff_markdownBlock(diffs: Diff[]): string
+    {
+        const body = this.diff_ansi(diffs, { mode: DiffAnsiMode.LINES, color: false });
+        // The fence must be longer than any run of backticks in the body.
+        let fence = "```";
+        const runs = body.match(/`+/g) || [];
+        for (let x = 0; x < runs.length; x++)
         {
-            return lastChars2;
+            if (runs[x].length >= fence.length)
+            {
+                fence = runs[x] + "`";
+            }
         }
-        // Add the remaining character length.
-        return lastChars2 + (loc - lastChars1);
+        return fence + "diff\n" + body + fence + "\n";
     }
 
     /**
-     * Convert a diff array into a pretty HTML report.
+     * Summarize a diff array in plain text, e.g.
+     * "3 paragraphs changed, 120 chars inserted, 4 chars deleted".
+     * Paragraphs are separated by blank lines, and a paragraph is changed if it
+     * has any change in either text.
      *
-     * @param {Diff[]>} diffs Array of diff tuples.
-     * @returns {string} HTML representation.
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @returns {string} Plain text summary, or "No changes".
      */
-    public diff_prettyHtml(diffs: Diff[]): string
+    public diff_summary(diffs: Diff[]): string
     {
-        const html = [];
-        const patternAMP = /&/g;
-        const patternLT = /</g;
-        const patternGT = />/g;
-        const patternPARA = /\n/g;
+        // Start of each paragraph, in both texts.
+        const paragraphStarts = (text: string) =>
+        {
+            const starts = [0];
+            const pattern = /\n[ \t]*\n\s*/g;
+            let m: RegExpExecArray | null;
+            while ((m = pattern.exec(text)))
+            {
+                starts.push(m.index + m[0].length);
+            }
+            return starts;
+        };
+        const starts1 = paragraphStarts(this.diff_text1(diffs));
+        const starts2 = paragraphStarts(this.diff_text2(diffs));
+        const paragraphOf = (starts: number[], index: number) =>
+        {
+            let paragraph = 0;
+            while (paragraph + 1 < starts.length && starts[paragraph + 1] <= index)
+            {
+                paragraph++;
+            }
+            return paragraph;
+        };
+        // Mark the paragraphs which a change spans, or else the one it's at.
+        const markChanged = (changed: Set<number>, starts: number[], index: number, length: number) =>
+        {
+            const last = paragraphOf(starts, index + math.max(length - 1, 0));
+            for (let paragraph = paragraphOf(starts, index); paragraph <= last; paragraph++)
+            {
+                changed.add(paragraph);
+            }
+        };
+
+        const changed1 = new Set<number>();
+        const changed2 = new Set<number>();
+        let insertions = 0;
+        let deletions = 0;
+        let pointer1 = 0;
+        let pointer2 = 0;
         for (let x = 0; x < diffs.length; x++)
         {
-            const op = diffs[x][0]; // Operation (insert, delete, equal)
-            const data = diffs[x][1]; // Text of change.
-            const text = data.replace(patternAMP, "&amp;")
-                .replace(patternLT, "&lt;")
-                .replace(patternGT, "&gt;")
-                .replace(patternPARA, "&para;<br>");
+            const [op, data] = diffs[x];
             switch (op)
             {
                 case DiffOperation.DIFF_INSERT:
-                    html[x] = '<ins style="background:#e6ffe6;">' + text + "</ins>";
+                    insertions += data.length;
+                    markChanged(changed1, starts1, pointer1, 0);
+                    markChanged(changed2, starts2, pointer2, data.length);
+                    pointer2 += data.length;
                     break;
                 case DiffOperation.DIFF_DELETE:
-                    html[x] = '<del style="background:#ffe6e6;">' + text + "</del>";
+                    deletions += data.length;
+                    markChanged(changed1, starts1, pointer1, data.length);
+                    markChanged(changed2, starts2, pointer2, 0);
+                    pointer1 += data.length;
                     break;
                 case DiffOperation.DIFF_EQUAL:
-                    html[x] = "<span>" + text + "</span>";
+                    pointer1 += data.length;
+                    pointer2 += data.length;
                     break;
             }
         }
-        return html.join("");
+        if (insertions === 0 && deletions === 0)
+        {
+            return "No changes";
+        }
+
+        const count = (n: number, noun: string) => n + " " + noun + (n === 1 ? "" : "s");
+        return count(math.max(changed1.size, changed2.size), "paragraph") + " changed, "
+            + count(insertions, "char") + " inserted, "
+            + count(deletions, "char") + " deleted";
+    }
+
+    /**
+     * Convert a diff array into a tree of plain objects, which can be rendered
+     * by any UI framework without parsing HTML.
+     *
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @returns {DiffNode[][]} Array of lines, each of which is an array of nodes.
+     * A newline which is inserted or deleted ends the line in the node of its change.
+     */
+    public diff_toNodes(diffs: Diff[]): DiffNode[][]
+    {
+        const types: Record<DiffOperation, DiffNode["type"]> = {
+            [DiffOperation.DIFF_INSERT]: "ins",
+            [DiffOperation.DIFF_DELETE]: "del",
+            [DiffOperation.DIFF_EQUAL]: "eq"
+        };
+        const lines: DiffNode[][] = [];
+        let line: DiffNode[] = [];
+        for (let x = 0; x < diffs.length; x++)
+        {
+            const pieces = diffs[x][1].split("\n");
+            for (let y = 0; y < pieces.length; y++)
+            {
+                const lineBreaks = y < pieces.length - 1 ? 1 : 0;
+                if (pieces[y] !== "" || lineBreaks)
+                {
+                    line.push({ type: types[diffs[x][0]], text: pieces[y], lineBreaks });
+                }
+                if (lineBreaks)
+                {
+                    lines.push(line);
+                    line = [];
+                }
+            }
+        }
+        if (line.length)
+        {
+            lines.push(line);
+        }
+        return lines;
     }
 
     /**
@@ -890,43 +1214,248 @@ export class DiffMatchPatch
     }
 
     /**
-     * Crush the diff into an encoded string which describes the operations
-     * required to transform text1 into text2.
-     * E.g. =3\t-2\t+ing  -> Keep 3 chars, delete 2 chars, insert 'ing'.
-     * Operations are tab-separated. Inserted text is escaped using %xx notation.
+     * Compute the statistics of a diff, i.e. how many characters, words and
+     * lines were inserted, deleted or left unchanged, and where the changed
+     * lines are in both texts.
      *
      * @param {Diff[]} diffs Array of diff tuples.
-     * @returns {string} Delta text.
+     * @returns {DiffStats} The statistics of the diff.
      */
-    public diff_toDelta(diffs: Diff[]): string
+    public diffStats(diffs: Diff[]): DiffStats
     {
-        const text = [];
+        const stats: DiffStats = {
+            insertedChars: 0,
+            deletedChars: 0,
+            unchangedChars: 0,
+            insertedWords: 0,
+            deletedWords: 0,
+            unchangedWords: 0,
+            insertedLines: 0,
+            deletedLines: 0,
+            unchangedLines: 0,
+            hunks: 0,
+            ratio: 1,
+            changedLines1: [],
+            changedLines2: []
+        };
+
+        // Where the equalities start in both texts.
+        const equalities: Array<[number, number, number]> = [];
+        let pointer1 = 0;
+        let pointer2 = 0;
         for (let x = 0; x < diffs.length; x++)
         {
+            const length = diffs[x][1].length;
             switch (diffs[x][0])
             {
                 case DiffOperation.DIFF_INSERT:
-                    text[x] = "+" + encodeURI(diffs[x][1]);
+                    stats.insertedChars += length;
+                    pointer2 += length;
                     break;
                 case DiffOperation.DIFF_DELETE:
-                    text[x] = "-" + diffs[x][1].length;
+                    stats.deletedChars += length;
+                    pointer1 += length;
                     break;
                 case DiffOperation.DIFF_EQUAL:
-                    text[x] = "=" + diffs[x][1].length;
+                    stats.unchangedChars += length;
+                    equalities.push([pointer1, pointer2, length]);
+                    pointer1 += length;
+                    pointer2 += length;
                     break;
             }
         }
-        return text.join("\t").replace(/%20/g, " ");
+        if (pointer1 + pointer2 > 0)
+        {
+            stats.ratio = 2 * stats.unchangedChars / (pointer1 + pointer2);
+        }
+
+        // Count the words. A word is unchanged if it's within an equality, and is
+        // a whole word in the new text too, i.e. no change joined or split it.
+        const text1 = this.diff_text1(diffs);
+        const text2 = this.diff_text2(diffs);
+        const isBoundary = (text: string, index: number) => index < 0 || index >= text.length || WHITESPACE_REGEX.test(text.charAt(index));
+        const pattern = /\S+/g;
+        let words1 = 0;
+        let words2 = 0;
+        let pointer = 0;
+        let m: RegExpExecArray | null;
+        while ((m = pattern.exec(text1)))
+        {
+            words1++;
+            const start = m.index;
+            const end = start + m[0].length;
+            while (pointer < equalities.length && equalities[pointer][0] + equalities[pointer][2] < end)
+            {
+                pointer++;
+            }
+            if (pointer < equalities.length && equalities[pointer][0] <= start)
+            {
+                const start2 = equalities[pointer][1] + start - equalities[pointer][0];
+                if (isBoundary(text2, start2 - 1) && isBoundary(text2, start2 + end - start))
+                {
+                    stats.unchangedWords++;
+                }
+            }
+        }
+        while (pattern.exec(text2))
+        {
+            words2++;
+        }
+        stats.deletedWords = words1 - stats.unchangedWords;
+        stats.insertedWords = words2 - stats.unchangedWords;
+
+        // Count the lines, and collect the runs of changed ones.
+        const lines = this.diff_lines_(diffs);
+        let lineNumber1 = 0;
+        let lineNumber2 = 0;
+        let range1: LineRange | null = null;
+        let range2: LineRange | null = null;
+        for (let x = 0; x < lines.length; x++)
+        {
+            const op = lines[x][0];
+            if (op === DiffOperation.DIFF_EQUAL)
+            {
+                stats.unchangedLines++;
+                lineNumber1++;
+                lineNumber2++;
+                range1 = null;
+                range2 = null;
+                continue;
+            }
+            if (!range1 || !range2)
+            {
+                range1 = { start: lineNumber1, length: 0 };
+                range2 = { start: lineNumber2, length: 0 };
+                stats.changedLines1.push(range1);
+                stats.changedLines2.push(range2);
+                stats.hunks++;
+            }
+            if (op === DiffOperation.DIFF_DELETE)
+            {
+                stats.deletedLines++;
+                range1.length++;
+                lineNumber1++;
+            }
+            else
+            {
+                stats.insertedLines++;
+                range2.length++;
+                lineNumber2++;
+            }
+        }
+        return stats;
     }
 
     /**
-     * Given the original text1, and an encoded string which describes the
-     * operations required to transform text1 into text2, compute the full diff.
+     * Find the blocks of text which were moved, by pairing up each deletion with
+     * the closest insertion of the same or nearly the same text elsewhere in the
+     * diff. The diff itself is left as is, so that renderers can draw the moves
+     * over it. DiffTimeout applies to the whole search.
      *
-     * @param {string} text1 Source string for the diff.
-     * @param {string} delta Delta text.
-     * @returns {Diff[]} Array of diff tuples.
-     * @throws {Error} If invalid input.
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @returns {DiffMove[]} Array of moves, in the order of their deletions.
+     */
+    public diff_detectMoves(diffs: Diff[]): DiffMove[]
+    {
+        // One deadline for the whole pass, shared by the diffs of the pairs.
+        const deadline = this.diffTimeout <= 0 ? Number.MAX_VALUE : Date.now() + this.diffTimeout * 1000;
+        // Number of equalities before each diff tuple.
+        const equalities = [0];
+        for (let x = 0; x < diffs.length; x++)
+        {
+            equalities.push(equalities[x] + (diffs[x][0] === DiffOperation.DIFF_EQUAL ? 1 : 0));
+        }
+
+        const moves: DiffMove[] = [];
+        const paired: boolean[] = [];
+        for (let x = 0; x < diffs.length; x++)
+        {
+            if (diffs[x][0] !== DiffOperation.DIFF_DELETE || diffs[x][1].length < this.diffMoveMinLength)
+            {
+                continue;
+            }
+            const deleted = diffs[x][1];
+            let bestIndex = -1;
+            let bestDiffs: Diff[] = [];
+            let bestDistance = 0;
+            for (let y = 0; y < diffs.length; y++)
+            {
+                if (diffs[y][0] !== DiffOperation.DIFF_INSERT || paired[y]
+                    || diffs[y][1].length < this.diffMoveMinLength
+                    || equalities[math.max(x, y)] === equalities[math.min(x, y) + 1])
+                {
+                    // Skip short and paired insertions, and insertions next to the
+                    // deletion, which are replacements rather than moves.
+                    continue;
+                }
+                const inserted = diffs[y][1];
+                const maxDistance = Math.floor(this.diffMoveThreshold * math.max(deleted.length, inserted.length));
+                // The characters which aren't common regardless of their order
+                // must change, so they bound the distance (speedup).
+                const common = Math.round(this.match_quickRatio(deleted, inserted) * (deleted.length + inserted.length) / 2);
+                const minDistance = math.max(deleted.length, inserted.length) - common;
+                if (minDistance > maxDistance || (bestIndex !== -1 && minDistance >= bestDistance))
+                {
+                    // Can't be close enough, or closer than the best one.
+                    continue;
+                }
+                const moveDiffs = this.diff_main(deleted, inserted, true, deadline);
+                const distance = this.diff_levenshtein(moveDiffs);
+                if (distance <= maxDistance && (bestIndex === -1 || distance < bestDistance))
+                {
+                    bestIndex = y;
+                    bestDiffs = moveDiffs;
+                    bestDistance = distance;
+                }
+            }
+            if (bestIndex !== -1)
+            {
+                this.diff_cleanupSemantic(bestDiffs);
+                paired[bestIndex] = true;
+                moves.push({ deleteIndex: x, insertIndex: bestIndex, diffs: bestDiffs });
+            }
+        }
+        return moves;
+    }
+
+    /**
+     * Crush the diff into an encoded string which describes the operations
+     * required to transform text1 into text2.
+     * E.g. =3\t-2\t+ing  -> Keep 3 chars, delete 2 chars, insert 'ing'.
+     * Operations are tab-separated. Inserted text is escaped using %xx notation.
+     *
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @returns {string} Delta text.
+     */
+    public diff_toDelta(diffs: Diff[]): string
+    {
+        const text = [];
+        for (let x = 0; x < diffs.length; x++)
+        {
+            switch (diffs[x][0])
+            {
+                case DiffOperation.DIFF_INSERT:
+                    text[x] = "+" + encodeURI(diffs[x][1]);
+                    break;
+                case DiffOperation.DIFF_DELETE:
+                    text[x] = "-" + diffs[x][1].length;
+                    break;
+                case DiffOperation.DIFF_EQUAL:
+                    text[x] = "=" + diffs[x][1].length;
+                    break;
+            }
+        }
+        return text.join("\t").replace(/%20/g, " ");
+    }
+
+    /**
+     * Given the original text1, and an encoded string which describes the
+     * operations required to transform text1 into text2, compute the full diff.
+     *
+     * @param {string} text1 Source string for the diff.
+     * @param {string} delta Delta text.
+     * @returns {Diff[]} Array of diff tuples.
+     * @throws {Error} If invalid input.
      */
     public diff_fromDelta(text1: string, delta: string): Diff[]
     {
@@ -991,9 +1520,35 @@ export class DiffMatchPatch
         return diffs;
     }
 
+    /**
+     * Convert a diff array into a JSON document, see DiffJson for the schema.
+     *
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @returns {DiffJson} The JSON document, ready for JSON.stringify.
+     */
+    public diff_toJSON(diffs: Diff[]): DiffJson
+    {
+        return { version: JSON_SCHEMA_VERSION, diffs: diffs.map((diff): Diff => [diff[0], diff[1]]) };
+    }
+
+    /**
+     * Read a diff array from a JSON document written by diff_toJSON.
+     *
+     * @param {unknown} json The JSON document, either as text or already parsed.
+     * @returns {Diff[]} Array of diff tuples.
+     * @throws {Error} If the document is malformed, naming the offending field.
+     */
+    public diff_fromJSON(json: unknown): Diff[]
+    {
+        const document = this.diff_parseJson_(json, "diffs", "diff_fromJSON");
+        return this.diff_validateDiffs_(document.diffs, "diffs", "diff_fromJSON");
+    }
+
     /**
      * Split two texts into an array of strings. Reduce the texts to a string of
      * hashes where each Unicode character represents one line.
+     * Once there are more than 65535 unique lines, each line is represented by
+     * a fixed number of Unicode characters instead.
      *
      * @param {string} text1 First string.
      * @param {string} text2 Second string.
@@ -1011,9 +1566,11 @@ export class DiffMatchPatch
         // So we'll insert a junk entry to avoid generating a null character.
         lineArray[0] = "";
 
-        // Allocate 2/3rds of the space for text1, the rest for text2.
-        const chars1 = this.diff_linesToCharsMunge_(text1, lineArray, lineHash, 40000);
-        const chars2 = this.diff_linesToCharsMunge_(text2, lineArray, lineHash, 65535);
+        const lines1 = this.diff_linesToCharsMunge_(text1, lineArray, lineHash);
+        const lines2 = this.diff_linesToCharsMunge_(text2, lineArray, lineHash);
+        const width = this.diff_tokenWidth_(lineArray.length);
+        const chars1 = this.diff_encodeTokens_(lines1, width);
+        const chars2 = this.diff_encodeTokens_(lines2, width);
         return { chars1, chars2, lineArray };
     }
 
@@ -1026,17 +1583,191 @@ export class DiffMatchPatch
      */
     public diff_charsToLines(diffs: Diff[], lineArray: string[])
     {
+        const width = this.diff_tokenWidth_(lineArray.length);
+        if (width > 1)
+        {
+            // The diff may have split a line hash in two.
+            this.diff_alignTokens_(diffs, width);
+        }
         for (let i = 0; i < diffs.length; i++)
         {
             const chars = diffs[i][1];
             const text = [];
-            for (let j = 0; j < chars.length; j++)
+            for (let j = 0; j < chars.length; j += width)
             {
-                text[j] = lineArray[chars.charCodeAt(j)];
+                let index = 0;
+                for (let k = j; k < j + width; k++)
+                {
+                    index = index * 65536 + chars.charCodeAt(k);
+                }
+                text[j / width] = lineArray[index];
             }
             diffs[i][1] = text.join("");
         }
     }
+
+    /**
+     * Split two texts into an array of tokens using a tokenizer. Reduce the texts
+     * to a string of hashes where each Unicode character represents one token.
+     *
+     * @param {string} text1 First string.
+     * @param {string} text2 Second string.
+     * @param {DiffTokenizer} tokenizer Tokenizer to split the texts with.
+     * @returns {{chars1: string, chars2: string, tokenArray: string[]}}
+     * An object containing the encoded text1, the encoded text2 and
+     * the array of unique strings.
+     * The zeroth element of the array of unique strings is intentionally blank.
+     * @throws {Error} If the tokens do not add up to the text.
+     */
+    public diff_tokensToChars(
+        text1: string,
+        text2: string,
+        tokenizer: DiffTokenizer
+    ): { chars1: string; chars2: string; tokenArray: string[] }
+    {
+        const tokenArray: string[] = [""]; // e.g. tokenArray[4] == 'Hello'
+        const tokenHash: Record<string, number> = {}; // e.g. tokenHash['Hello'] == 4
+
+        const tokens1 = this.diff_tokensToCharsMunge_(text1, tokenizer, tokenArray, tokenHash);
+        const tokens2 = this.diff_tokensToCharsMunge_(text2, tokenizer, tokenArray, tokenHash);
+        const width = this.diff_tokenWidth_(tokenArray.length);
+        const chars1 = this.diff_encodeTokens_(tokens1, width);
+        const chars2 = this.diff_encodeTokens_(tokens2, width);
+        return { chars1, chars2, tokenArray };
+    }
+
+    /**
+     * Rehydrate the text in a diff from a string of token hashes to real tokens
+     * of text.
+     *
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @param {string[]} tokenArray Array of unique strings.
+     */
+    public diff_charsToTokens(diffs: Diff[], tokenArray: string[])
+    {
+        // Tokens are decoded just like lines.
+        this.diff_charsToLines(diffs, tokenArray);
+    }
+
+    /**
+     * Split two texts into an array of words. Reduce the texts to a string of
+     * hashes where each Unicode character represents one word.
+     * A word is a run of alphanumeric characters, a run of whitespace, or any
+     * other single character.
+     *
+     * @param {string} text1 First string.
+     * @param {string} text2 Second string.
+     * @returns {{chars1: string, chars2: string, wordArray: string[]}}
+     * An object containing the encoded text1, the encoded text2 and
+     * the array of unique strings.
+     * The zeroth element of the array of unique strings is intentionally blank.
+     */
+    public diff_wordsToChars(text1: string, text2: string): { chars1: string; chars2: string; wordArray: string[] }
+    {
+        const a = this.diff_tokensToChars(text1, text2, { tokenize: (text) => this.diff_splitWords_(text) });
+        return { chars1: a.chars1, chars2: a.chars2, wordArray: a.tokenArray };
+    }
+
+    /**
+     * Rehydrate the text in a diff from a string of word hashes to real words of
+     * text.
+     *
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @param {string[]} wordArray Array of unique strings.
+     */
+    public diff_charsToWords(diffs: Diff[], wordArray: string[])
+    {
+        // Words are decoded just like lines.
+        this.diff_charsToLines(diffs, wordArray);
+    }
+
+    /**
+     * Find the differences between two texts on a word-by-word basis, so that
+     * changed words are replaced as a whole rather than character-by-character.
+     *
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @returns {Diff[]} Array of diff tuples.
+     */
+    public diff_wordMode(text1: string, text2: string): Diff[]
+    {
+        return this.diff_main(text1, text2, { tokenize: (text) => this.diff_splitWords_(text) });
+    }
+
+    /**
+     * Find the differences between two sequences of arbitrary items.
+     * Each unique item is reduced to one hash, so that the sequences can be
+     * diffed like texts (subject to DiffTimeout as well).
+     *
+     * @param {T[]} a Old sequence to be diffed.
+     * @param {T[]} b New sequence to be diffed.
+     * @param {(x: T, y: T) => boolean} [equals] Optional equality of items.
+     * Defaults to SameValueZero, which hashes the items in linear time. A custom
+     * equality compares each item with every unique item seen so far.
+     * @returns {SequenceDiff<T>[]} Array of diff tuples, where the retained items
+     * are taken from `a`.
+     */
+    public diffSequences<T>(a: T[], b: T[], equals?: (x: T, y: T) => boolean): SequenceDiff<T>[]
+    {
+        // Check for null inputs.
+        if (a == null || b == null)
+        {
+            throw new Error("Null input. (diffSequences)");
+        }
+
+        const itemArray: T[] = []; // e.g. itemArray[4] == item
+        const itemHash = new Map<T, number>(); // e.g. itemHash.get(item) == 4
+        const hashItem = (item: T) =>
+        {
+            let hash = equals ? itemArray.findIndex((other) => equals(other, item)) + 1 : itemHash.get(item);
+            if (!hash)
+            {
+                // Hash 0 is intentionally left blank, just like diff_linesToChars.
+                itemArray.push(item);
+                hash = itemArray.length;
+                itemHash.set(item, hash);
+            }
+            return hash;
+        };
+        const hashes1 = a.map(hashItem);
+        const hashes2 = b.map(hashItem);
+        const width = this.diff_tokenWidth_(itemArray.length + 1);
+        // The hashes are not text, so bypass DiffWhitespace.
+        const diffs = this.diff_runSteps_(this.diff_mainSteps_(
+            this.diff_encodeTokens_(hashes1, width),
+            this.diff_encodeTokens_(hashes2, width),
+            false,
+            this.diff_newRun_()
+        ));
+        if (width > 1)
+        {
+            // The diff may have split a hash in two.
+            this.diff_alignTokens_(diffs, width);
+        }
+
+        // Convert the diff back to runs of items.
+        const sequenceDiffs: SequenceDiff<T>[] = [];
+        let pointer1 = 0;
+        let pointer2 = 0;
+        for (let x = 0; x < diffs.length; x++)
+        {
+            const count = diffs[x][1].length / width;
+            switch (diffs[x][0])
+            {
+                case DiffOperation.DIFF_INSERT:
+                    sequenceDiffs.push([DiffOperation.DIFF_INSERT, b.slice(pointer2, pointer2 += count)]);
+                    break;
+                case DiffOperation.DIFF_DELETE:
+                    sequenceDiffs.push([DiffOperation.DIFF_DELETE, a.slice(pointer1, pointer1 += count)]);
+                    break;
+                case DiffOperation.DIFF_EQUAL:
+                    sequenceDiffs.push([DiffOperation.DIFF_EQUAL, a.slice(pointer1, pointer1 += count)]);
+                    pointer2 += count;
+                    break;
+            }
+        }
+        return sequenceDiffs;
+    }
     //#endregion DIFF FUNCTIONS (public)
 
     //#region MATCH FUNCTIONS (public)
@@ -1056,77 +1787,277 @@ export class DiffMatchPatch
             throw new Error("Null input. (match_main)");
         }
 
-        loc = math.max(0, math.min(loc, text.length));
-        if (text === pattern)
+        if (this.matchIgnoreCase || this.matchNormalization)
         {
-            // Shortcut (potentially not guaranteed by the algorithm)
-            return 0;
+            // Search the folded text, then map the match back onto the text.
+            const folded = this.match_fold_(text);
+            let foldedLoc = 0;
+            while (foldedLoc < folded.text.length && folded.starts[foldedLoc] < loc)
+            {
+                foldedLoc++;
+            }
+            const index = this.match_locate_(folded.text, this.match_fold_(pattern).text, foldedLoc);
+            return index === -1 ? -1 : folded.starts[index];
         }
-        else if (!text.length)
+        return this.match_locate_(text, pattern, loc);
+    }
+
+    /**
+     * Compute the Levenshtein distance of two texts, i.e. the number of
+     * inserted, deleted or substituted characters, without computing a diff.
+     * Takes time proportional to the length of the texts times their distance.
+     * Subject to DiffTimeout: if the time runs out, the distance of a diff is
+     * returned instead, which may be larger.
+     *
+     * @param {string} text1 First string.
+     * @param {string} text2 Second string.
+     * @param {number} [optMax] Optional maximum distance of interest. Once the
+     * distance is sure to exceed it, the computation stops and returns optMax + 1.
+     * @returns {number} The distance.
+     */
+    public match_levenshtein(text1: string, text2: string, optMax?: number): number
+    {
+        const max = optMax === undefined ? Infinity : optMax;
+        const lengthDifference = math.max(text1.length, text2.length) - math.min(text1.length, text2.length);
+        if (lengthDifference > max)
         {
-            // Nothing to match.
-            return -1;
+            return max + 1;
         }
-        else if (text.substring(loc, loc + pattern.length) === pattern)
+
+        // A distance within a band of diagonals of the matrix is exact, so widen
+        // the band until the distance fits (Ukkonen).
+        const run = this.diff_newRun_();
+        let band = math.max(lengthDifference, 1);
+        while (true)
         {
-            // Perfect match at the perfect spot!  (Includes case of null pattern)
-            return loc;
+            const limit = math.min(band, max);
+            const distance = this.match_levenshteinWithin_(text1, text2, limit, run.deadline);
+            if (distance === -1)
+            {
+                // Out of time.
+                const diffs = this.diff_runSteps_(this.diff_mainSteps_(text1, text2, false, run));
+                return math.min(this.diff_levenshtein(diffs), max + 1);
+            }
+            if (distance <= limit || limit === max)
+            {
+                return math.min(distance, max + 1);
+            }
+            band *= 2;
         }
-        else
+    }
+
+    /**
+     * Compute the Levenshtein distance of two texts relative to the longer one.
+     *
+     * @param {string} text1 First string.
+     * @param {string} text2 Second string.
+     * @returns {number} The distance from 0 (equal) to 1 (nothing in common).
+     */
+    public match_normalizedDistance(text1: string, text2: string): number
+    {
+        const length = math.max(text1.length, text2.length);
+        return length === 0 ? 0 : this.match_levenshtein(text1, text2) / length;
+    }
+
+    /**
+     * Compute the similarity of two texts, i.e. twice the length of their
+     * common characters over the characters of both texts, like `ratio()` of
+     * Python's difflib. The common characters are the equalities of a diff, so
+     * the ratio is subject to DiffTimeout, and may be lower than that of their
+     * longest common subsequence if the time runs out.
+     *
+     * @param {string} text1 First string.
+     * @param {string} text2 Second string.
+     * @returns {number} The similarity from 0 (nothing in common) to 1 (equal).
+     */
+    public match_ratio(text1: string, text2: string): number
+    {
+        const total = text1.length + text2.length;
+        if (total === 0)
         {
-            // Do a fuzzy compare.
-            return this.match_bitap_(text, pattern, loc);
+            return 1;
+        }
+
+        const diffs = this.diff_runSteps_(this.diff_mainSteps_(text1, text2, false, this.diff_newRun_()));
+        let common = 0;
+        for (let x = 0; x < diffs.length; x++)
+        {
+            if (diffs[x][0] === DiffOperation.DIFF_EQUAL)
+            {
+                common += diffs[x][1].length;
+            }
         }
+        return 2 * common / total;
     }
-    //#endregion MATCH FUNCTIONS (public)
 
-    //#region PATCH FUNCTIONS (public)
     /**
-     * Compute a list of patches to turn text1 into text2.
-     * Use diffs if provided, otherwise compute it ourselves.
-     * There are four ways to call this function, depending on what data is
-     * available to the caller:
-     * Method 1:
-     * a = text1, b = text2
-     * Method 2:
-     * a = diffs
-     * Method 3 (optimal):
-     * a = text1, b = diffs
-     * Method 4 (deprecated, use method 3):
-     * a = text1, b = text2, c = diffs
+     * Compute an upper bound of match_ratio in linear time, from the characters
+     * the texts have in common regardless of their order, like `quick_ratio()`
+     * of Python's difflib.
      *
-     * @param {(string|Diff[])} a text1 (methods 1,3,4) or
-     * Array of diff tuples for text1 to text2 (method 2).
-     * @param {(string|Diff[])} [optB] text2 (methods 1,4) or
-     * Array of diff tuples for text1 to text2 (method 3) or undefined (method 2).
-     * @param {(string|Diff[])} [optC] Array of diff tuples
-     * for text1 to text2 (method 4) or undefined (methods 1,2,3).
-     * @returns {PatchObject[]} Array of Patch objects.
+     * @param {string} text1 First string.
+     * @param {string} text2 Second string.
+     * @returns {number} The upper bound from 0 to 1.
      */
-    public patch_make(
-        a: string | Diff[],
-        optB?: string | Diff[],
-        optC?: string | Diff[]
-    ): PatchObject[]
+    public match_quickRatio(text1: string, text2: string): number
     {
-        let text1: string;
-        let diffs: Diff[];
-        if (typeof a === "string" &&
-            typeof optB === "string" &&
-            typeof optC === "undefined")
+        const total = text1.length + text2.length;
+        if (total === 0)
         {
-            // Method 1: text1, text2
-            // Compute diffs from text1 and text2.
-            text1 = a;
-            diffs = this.diff_main(text1, optB, true);
-            if (diffs.length > 2)
+            return 1;
+        }
+        const available = new Map<string, number>();
+        for (let x = 0; x < text1.length; x++)
+        {
+            const char = text1.charAt(x);
+            available.set(char, (available.get(char) || 0) + 1);
+        }
+        let matches = 0;
+        for (let y = 0; y < text2.length; y++)
+        {
+            const char = text2.charAt(y);
+            const count = available.get(char) || 0;
+            if (count > 0)
             {
-                this.diff_cleanupSemantic(diffs);
-                this.diff_cleanupEfficiency(diffs);
+                available.set(char, count - 1);
+                matches++;
             }
         }
-        else if (a &&
-            typeof a === "object" &&
+        return 2 * matches / total;
+    }
+
+    /**
+     * Compute an upper bound of match_quickRatio in constant time, from the
+     * lengths of the texts, like `real_quick_ratio()` of Python's difflib.
+     *
+     * @param {string} text1 First string.
+     * @param {string} text2 Second string.
+     * @returns {number} The upper bound from 0 to 1.
+     */
+    public match_realQuickRatio(text1: string, text2: string): number
+    {
+        const total = text1.length + text2.length;
+        return total === 0 ? 1 : 2 * math.min(text1.length, text2.length) / total;
+    }
+
+    /**
+     * Rank candidates by their similarity to a query, see match_ratio.
+     * Candidates are ruled out by the cheaper upper bounds first, and once
+     * `limit` candidates are found, only better ones are scored in full.
+     * Subject to MatchIgnoreCase and MatchNormalization.
+     *
+     * @param {string} query The string to compare the candidates with.
+     * @param {string[]} candidates Array of candidates.
+     * @param {SimilarityOptions} [optOptions] Optional options of the ranking.
+     * Defaults to all candidates, with any score.
+     * @returns {SimilarityMatch[]} The best candidates, the most similar first,
+     * and in their original order when tied.
+     */
+    public rankBySimilarity(query: string, candidates: string[], optOptions?: SimilarityOptions): SimilarityMatch[]
+    {
+        // Check for null inputs.
+        if (query == null || candidates == null)
+        {
+            throw new Error("Null input. (rankBySimilarity)");
+        }
+
+        const options: Required<SimilarityOptions> = { limit: Infinity, cutoff: 0, ...optOptions };
+        const fold = (text: string) => this.diff_fold_(text, this.matchIgnoreCase, this.matchNormalization);
+        const foldedQuery = fold(query);
+        const matches: SimilarityMatch[] = [];
+        // Whether a score would make it into the matches.
+        const qualifies = (score: number) =>
+        {
+            if (matches.length < options.limit)
+            {
+                return score >= options.cutoff;
+            }
+            return score > matches[matches.length - 1].score;
+        };
+        if (options.limit <= 0)
+        {
+            return matches;
+        }
+
+        for (let x = 0; x < candidates.length; x++)
+        {
+            const candidate = fold(candidates[x]);
+            if (
+                !qualifies(this.match_realQuickRatio(foldedQuery, candidate))
+                || !qualifies(this.match_quickRatio(foldedQuery, candidate))
+            )
+            {
+                continue;
+            }
+            const score = this.match_ratio(foldedQuery, candidate);
+            if (!qualifies(score))
+            {
+                continue;
+            }
+
+            // Insert after the matches which score the same or better.
+            let index = matches.length;
+            while (index > 0 && matches[index - 1].score < score)
+            {
+                index--;
+            }
+            matches.splice(index, 0, { candidate: candidates[x], index: x, score });
+            if (matches.length > options.limit)
+            {
+                matches.pop();
+            }
+        }
+        return matches;
+    }
+    //#endregion MATCH FUNCTIONS (public)
+
+    //#region PATCH FUNCTIONS (public)
+    /**
+     * Compute a list of patches to turn text1 into text2.
+     * Use diffs if provided, otherwise compute it ourselves.
+     * There are four ways to call this function, depending on what data is
+     * available to the caller:
+     * Method 1:
+     * a = text1, b = text2
+     * Method 2:
+     * a = diffs
+     * Method 3 (optimal):
+     * a = text1, b = diffs
+     * Method 4 (deprecated, use method 3):
+     * a = text1, b = text2, c = diffs
+     *
+     * @param {(string|Diff[])} a text1 (methods 1,3,4) or
+     * Array of diff tuples for text1 to text2 (method 2).
+     * @param {(string|Diff[])} [optB] text2 (methods 1,4) or
+     * Array of diff tuples for text1 to text2 (method 3) or undefined (method 2).
+     * @param {(string|Diff[])} [optC] Array of diff tuples
+     * for text1 to text2 (method 4) or undefined (methods 1,2,3).
+     * @returns {PatchObject[]} Array of Patch objects.
+     */
+    public patch_make(
+        a: string | Diff[],
+        optB?: string | Diff[],
+        optC?: string | Diff[]
+    ): PatchObject[]
+    {
+        let text1: string;
+        let diffs: Diff[];
+        if (typeof a === "string" &&
+            typeof optB === "string" &&
+            typeof optC === "undefined")
+        {
+            // Method 1: text1, text2
+            // Compute diffs from text1 and text2.
+            text1 = a;
+            diffs = this.diff_main(text1, optB, true);
+            if (diffs.length > 2)
+            {
+                this.diff_cleanupSemantic(diffs);
+                this.diff_cleanupEfficiency(diffs);
+            }
+        }
+        else if (a &&
+            typeof a === "object" &&
             typeof optB === "undefined" &&
             typeof optC === "undefined")
         {
@@ -1545,11 +2476,12 @@ export class DiffMatchPatch
                     }
                     else
                     {
-                        // Deletion or equality. Only take as much as we can stomach.
-                        diffText = diffText.substring(
-                            0,
-                            patchSize - patch.length1 - this.patchMargin
-                        );
+                        // Deletion or equality. Only take as much as we can stomach,
+                        // without splitting a unit of text.
+                        const isBoundary = this.diff_unitBoundaries_(diffText);
+                        let length = math.min(diffText.length, patchSize - patch.length1 - this.patchMargin);
+                        length = this.diff_unitFloor_(isBoundary, length) || this.diff_unitCeil_(isBoundary, length, diffText.length);
+                        diffText = diffText.substring(0, length);
                         patch.length1 += diffText.length;
                         start1 += diffText.length;
                         if (diffType === DiffOperation.DIFF_EQUAL)
@@ -1574,9 +2506,17 @@ export class DiffMatchPatch
                 }
                 // Compute the head context for the next patch.
                 precontext = this.diff_text2(patch.diffs);
-                precontext = precontext.substring(precontext.length - this.patchMargin);
+                precontext = precontext.substring(this.diff_unitFloor_(
+                    this.diff_unitBoundaries_(precontext),
+                    math.max(0, precontext.length - this.patchMargin)
+                ));
                 // Append the end context for this patch.
-                const postcontext = this.diff_text1(bigpatch.diffs).substring(0, this.patchMargin);
+                let postcontext = this.diff_text1(bigpatch.diffs);
+                postcontext = postcontext.substring(0, this.diff_unitCeil_(
+                    this.diff_unitBoundaries_(postcontext),
+                    math.min(postcontext.length, this.patchMargin),
+                    postcontext.length
+                ));
                 if (postcontext !== "")
                 {
                     patch.length1 += postcontext.length;
@@ -1641,37 +2581,8 @@ export class DiffMatchPatch
             }
             const patch = new PatchObject();
             patches.push(patch);
-            patch.start1 = parseInt(m[1], 10);
-            if (m[2] === "")
-            {
-                patch.start1--;
-                patch.length1 = 1;
-            }
-            else if (m[2] === "0")
-            {
-                patch.length1 = 0;
-            }
-            else
-            {
-                patch.start1--;
-                patch.length1 = parseInt(m[2], 10);
-            }
-
-            patch.start2 = parseInt(m[3], 10);
-            if (m[4] === "")
-            {
-                patch.start2--;
-                patch.length2 = 1;
-            }
-            else if (m[4] === "0")
-            {
-                patch.length2 = 0;
-            }
-            else
-            {
-                patch.start2--;
-                patch.length2 = parseInt(m[4], 10);
-            }
+            [patch.start1, patch.length1] = this.patch_parseRange_(m[1], m[2]);
+            [patch.start2, patch.length2] = this.patch_parseRange_(m[3], m[4]);
             textPointer++;
 
             let sign: string;
@@ -1724,165 +2635,1974 @@ export class DiffMatchPatch
         }
         return patches;
     }
-    //#endregion PATCH FUNCTIONS (public)
 
-    //#region DIFF FUNCTIONS (private)
     /**
-     * Find the differences between two texts. Assumes that the texts do not
-     * have any common prefix or suffix.
+     * Convert a list of patches into a JSON document, see PatchJson for the schema.
      *
-     * @private
-     * @param {string} text1 Old string to be diffed.
-     * @param {string} text2 New string to be diffed.
-     * @param {boolean} checklines Speedup flag. If false, then don't run a
-     * line-level diff first to identify the changed areas.
-     * If true, then run a faster, slightly less optimal diff.
-     * @param {number} deadline Time when the diff should be complete by.
-     * @returns {Diff[]} Array of diff tuples.
+     * @param {PatchObject[]} patches Array of Patch objects.
+     * @returns {PatchJson} The JSON document, ready for JSON.stringify.
      */
-    private diff_compute_(text1: string, text2: string, checklines: boolean, deadline: number): Diff[]
+    public patch_toJSON(patches: PatchObject[]): PatchJson
     {
-        let diffs: Diff[];
+        return {
+            version: JSON_SCHEMA_VERSION,
+            patches: patches.map((patch) => ({
+                diffs: patch.diffs.map((diff): Diff => [diff[0], diff[1]]),
+                start1: patch.start1,
+                start2: patch.start2,
+                length1: patch.length1,
+                length2: patch.length2
+            }))
+        };
+    }
 
-        if (!text1)
+    /**
+     * Read a list of patches from a JSON document written by patch_toJSON.
+     *
+     * @param {unknown} json The JSON document, either as text or already parsed.
+     * @returns {PatchObject[]} Array of Patch objects.
+     * @throws {Error} If the document is malformed, naming the offending field.
+     */
+    public patch_fromJSON(json: unknown): PatchObject[]
+    {
+        const caller = "patch_fromJSON";
+        const document = this.diff_parseJson_(json, "patches", caller);
+        return (document.patches as unknown[]).map((value, x) =>
         {
-            // Just add some text (speedup).
-            return [[DiffOperation.DIFF_INSERT, text2]];
-        }
+            const path = "patches[" + x + "]";
+            if (value === null || typeof value !== "object" || Array.isArray(value))
+            {
+                throw new Error("Invalid JSON in " + caller + ": " + path + " must be an object");
+            }
+            const fields = value as Record<string, unknown>;
+            const patch = new PatchObject();
+            patch.diffs = this.diff_validateDiffs_(fields.diffs, path + ".diffs", caller);
+            for (const key of ["start1", "start2", "length1", "length2"] as const)
+            {
+                const field = fields[key];
+                if (typeof field !== "number" || !Number.isInteger(field) || field < 0)
+                {
+                    throw new Error("Invalid JSON in " + caller + ": " + path + "." + key + " must be a non-negative integer");
+                }
+                patch[key] = field;
+            }
+            if (patch.length1 !== this.diff_text1(patch.diffs).length || patch.length2 !== this.diff_text2(patch.diffs).length)
+            {
+                throw new Error("Invalid JSON in " + caller + ": " + path + " has lengths which do not match its diffs");
+            }
+            return patch;
+        });
+    }
 
-        if (!text2)
+    /**
+     * Find the differences between two texts line by line, and return them as
+     * a unified diff, which can be read by GNU patch and git apply.
+     * Unlike patch_toText, the hunks are addressed by line numbers and the lines
+     * are written as they are.
+     *
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @param {UnifiedDiffOptions} [optOptions] Optional options of the diff.
+     * Defaults to 3 lines of context, with the files named "a" and "b".
+     * @returns {string} The unified diff, or an empty string if the texts are equal.
+     */
+    public toUnifiedDiff(text1: string, text2: string, optOptions?: UnifiedDiffOptions): string
+    {
+        // Check for null inputs.
+        if (text1 == null || text2 == null)
         {
-            // Just delete some text (speedup).
-            return [[DiffOperation.DIFF_DELETE, text1]];
+            throw new Error("Null input. (toUnifiedDiff)");
         }
 
-        const longtext = text1.length > text2.length ? text1 : text2;
-        const shorttext = text1.length > text2.length ? text2 : text1;
-        const i = longtext.indexOf(shorttext);
-        if (i !== -1)
+        const options: Required<UnifiedDiffOptions> = { context: 3, fromFile: "a", toFile: "b", ...optOptions };
+        const context = math.max(0, options.context);
+
+        // Keep the line number of each line in both texts.
+        const lines = this.diff_byLine_(text1, text2);
+        const lineNumbers1: number[] = [];
+        const lineNumbers2: number[] = [];
+        let lineNumber1 = 0;
+        let lineNumber2 = 0;
+        for (let x = 0; x < lines.length; x++)
         {
-            // Shorter text is inside the longer text (speedup).
-            diffs = [
-                [DiffOperation.DIFF_INSERT, longtext.substring(0, i)],
-                [DiffOperation.DIFF_EQUAL, shorttext],
-                [DiffOperation.DIFF_INSERT, longtext.substring(i + shorttext.length)]
-            ];
-            // Swap insertions for deletions if diff is reversed.
-            if (text1.length > text2.length)
+            lineNumbers1.push(lineNumber1);
+            lineNumbers2.push(lineNumber2);
+            if (lines[x][0] !== DiffOperation.DIFF_INSERT)
             {
-                diffs[0][0] = DiffOperation.DIFF_DELETE;
-                diffs[2][0] = DiffOperation.DIFF_DELETE;
+                lineNumber1++;
+            }
+            if (lines[x][0] !== DiffOperation.DIFF_DELETE)
+            {
+                lineNumber2++;
             }
-            return diffs;
         }
 
-        if (shorttext.length === 1)
+        // Same as PatchObject.toString, a range of 0 lines starts at the line before it.
+        const coords = (start: number, length: number) =>
         {
-            // Single character string.
-            // After the previous speedup, the character can't be an equality.
-            return [
-                [DiffOperation.DIFF_DELETE, text1],
-                [DiffOperation.DIFF_INSERT, text2]
-            ];
-        }
+            if (length === 0)
+            {
+                return start + ",0";
+            }
+            return length === 1 ? String(start + 1) : (start + 1) + "," + length;
+        };
 
-        // Check to see if the problem can be split in two.
-        const hm = this.diff_halfMatch_(text1, text2);
-        if (hm)
+        const text: string[] = [];
+        let pointer = 0;
+        while (pointer < lines.length)
         {
-            // A half-match was found, sort out the return data.
-            const text1A = hm[0];
-            const text1B = hm[1];
-            const text2A = hm[2];
-            const text2B = hm[3];
-            const midCommon = hm[4];
-            // Send both pairs off for separate processing.
-            const diffsA = this.diff_main(text1A, text2A, checklines, deadline);
-            const diffsB = this.diff_main(text1B, text2B, checklines, deadline);
-            // Merge the results.
-            return diffsA.concat([[DiffOperation.DIFF_EQUAL, midCommon]], diffsB);
+            if (lines[pointer][0] === DiffOperation.DIFF_EQUAL)
+            {
+                pointer++;
+                continue;
+            }
+
+            // Extend the hunk over every change which is at most twice the context away.
+            const hunkStart = math.max(0, pointer - context);
+            let changeEnd = pointer + 1;
+            for (let x = changeEnd; x < lines.length && x - changeEnd < 2 * context + 1; x++)
+            {
+                if (lines[x][0] !== DiffOperation.DIFF_EQUAL)
+                {
+                    changeEnd = x + 1;
+                }
+            }
+            const hunkEnd = math.min(lines.length, changeEnd + context);
+
+            let length1 = 0;
+            let length2 = 0;
+            const body: string[] = [];
+            for (let x = hunkStart; x < hunkEnd; x++)
+            {
+                const [op, line] = lines[x];
+                switch (op)
+                {
+                    case DiffOperation.DIFF_INSERT:
+                        body.push("+");
+                        length2++;
+                        break;
+                    case DiffOperation.DIFF_DELETE:
+                        body.push("-");
+                        length1++;
+                        break;
+                    case DiffOperation.DIFF_EQUAL:
+                        body.push(" ");
+                        length1++;
+                        length2++;
+                        break;
+                }
+                body.push(line.endsWith("\n") ? line : line + "\n\\ No newline at end of file\n");
+            }
+            text.push(
+                "@@ -" + coords(lineNumbers1[hunkStart], length1)
+                + " +" + coords(lineNumbers2[hunkStart], length2) + " @@\n",
+                ...body
+            );
+            pointer = hunkEnd;
         }
 
-        if (checklines && text1.length > 100 && text2.length > 100)
+        if (text.length === 0)
         {
-            return this.diff_lineMode_(text1, text2, deadline);
+            return "";
         }
-
-        return this.diff_bisect_(text1, text2, deadline);
+        return "--- " + options.fromFile + "\n+++ " + options.toFile + "\n" + text.join("");
     }
 
     /**
-     * Do a quick line-level diff on both strings, then re-diff the parts for
-     * greater accuracy.
-     * This speedup can produce non-minimal diffs.
+     * Parse a standard unified diff, as written by toUnifiedDiff, `diff -u` or
+     * `git diff`. The diff may hold any number of files, and any text between
+     * them, such as a commit message or the extended headers of git, is skipped.
      *
-     * @private
-     * @param {string} text1 Old string to be diffed.
-     * @param {string} text2 New string to be diffed.
-     * @param {number} deadline Time when the diff should be complete by.
-     * @returns {Diff[]} Array of diff tuples.
+     * @param {string} text Text of the unified diff.
+     * @returns {UnifiedDiffFile[]} Array of the files in the diff, see
+     * patch_fromUnifiedDiff to apply them.
+     * @throws {Error} If invalid input.
      */
-    private diff_lineMode_(text1: string, text2: string, deadline: number): Diff[]
+    public fromUnifiedDiff(text: string): UnifiedDiffFile[]
     {
-        // Scan the text on a line-by-line basis first.
-        const a = this.diff_linesToChars(text1, text2);
-        text1 = a.chars1;
-        text2 = a.chars2;
-        const linearray = a.lineArray;
-
-        const diffs = this.diff_main(text1, text2, false, deadline);
-
-        // Convert the diff back to original text.
-        this.diff_charsToLines(diffs, linearray);
-        // Eliminate freak matches (e.g. blank lines)
-        this.diff_cleanupSemantic(diffs);
+        const files: UnifiedDiffFile[] = [];
+        if (!text)
+        {
+            return files;
+        }
 
-        // Re-diff any replacement blocks, this time character-by-character.
-        // Add a dummy entry at the end.
-        diffs.push([DiffOperation.DIFF_EQUAL, ""]);
+        const lines = this.merge_splitLines_(text);
+        const hunkHeader = /^@@ -(\d+),?(\d*) \+(\d+),?(\d*) @@/;
+        // Drop the newline, and the timestamp written by diff -u.
+        const fileName = (line: string) => line.substring(4).replace(/\r?\n$/, "").split("\t")[0];
+        let file: UnifiedDiffFile | null = null;
+        // Whether the file was started by "diff --git" and still awaits its "---" and "+++".
+        let gitFile = false;
         let pointer = 0;
-        let countDelete = 0;
-        let countInsert = 0;
-        let textDelete = "";
-        let textInsert = "";
-        while (pointer < diffs.length)
+        while (pointer < lines.length)
         {
-            switch (diffs[pointer][0])
+            const line = lines[pointer];
+            const m = line.match(hunkHeader);
+            if (line.startsWith("diff --git "))
             {
-                case DiffOperation.DIFF_INSERT:
-                    countInsert++;
-                    textInsert += diffs[pointer][1];
-                    break;
-                case DiffOperation.DIFF_DELETE:
-                    countDelete++;
-                    textDelete += diffs[pointer][1];
-                    break;
-                case DiffOperation.DIFF_EQUAL:
-                    // Upon reaching an equality, check for prior redundancies.
-                    if (countDelete >= 1 && countInsert >= 1)
-                    {
-                        // Delete the offending records and add the merged ones.
-                        diffs.splice(pointer - countDelete - countInsert, countDelete + countInsert);
-                        pointer = pointer - countDelete - countInsert;
-                        const subDiff = this.diff_main(textDelete, textInsert, false, deadline);
-                        for (let j = subDiff.length - 1; j >= 0; j--)
-                        {
-                            diffs.splice(pointer, 0, subDiff[j]);
-                        }
-                        pointer = pointer + subDiff.length;
-                    }
-                    countInsert = 0;
-                    countDelete = 0;
-                    textDelete = "";
+                // Renames, mode changes and binary files have no other header.
+                const names = line.replace(/\r?\n$/, "").match(/^diff --git (\S+) (\S+)$/);
+                file = { fromFile: names ? names[1] : "", toFile: names ? names[2] : "", hunks: [] };
+                files.push(file);
+                gitFile = true;
+                pointer++;
+            }
+            else if (line.startsWith("--- ") && pointer + 1 < lines.length && lines[pointer + 1].startsWith("+++ "))
+            {
+                if (!file || !gitFile)
+                {
+                    file = { fromFile: "", toFile: "", hunks: [] };
+                    files.push(file);
+                }
+                file.fromFile = fileName(line);
+                file.toFile = fileName(lines[pointer + 1]);
+                gitFile = false;
+                pointer += 2;
+            }
+            else if (m)
+            {
+                if (!file)
+                {
+                    // A bare hunk, without any file header.
+                    file = { fromFile: "", toFile: "", hunks: [] };
+                    files.push(file);
+                }
+                const hunk: UnifiedDiffHunk = { start1: 0, length1: 0, start2: 0, length2: 0, diffs: [] };
+                file.hunks.push(hunk);
+                [hunk.start1, hunk.length1] = this.patch_parseRange_(m[1], m[2]);
+                [hunk.start2, hunk.length2] = this.patch_parseRange_(m[3], m[4]);
+                pointer++;
+
+                // The lengths tell where the hunk ends, even if a line looks like a header.
+                let remaining1 = hunk.length1;
+                let remaining2 = hunk.length2;
+                while (
+                    remaining1 > 0
+                    || remaining2 > 0
+                    || (pointer < lines.length && lines[pointer].startsWith("\\"))
+                )
+                {
+                    if (pointer >= lines.length)
+                    {
+                        throw new Error("Unterminated hunk: " + line);
+                    }
+                    const bodyLine = lines[pointer];
+                    const sign = bodyLine.charAt(0);
+                    let op: DiffOperation;
+                    if (sign === "-")
+                    {
+                        // Deletion.
+                        op = DiffOperation.DIFF_DELETE;
+                        remaining1--;
+                    }
+                    else if (sign === "+")
+                    {
+                        // Insertion.
+                        op = DiffOperation.DIFF_INSERT;
+                        remaining2--;
+                    }
+                    else if (sign === " " || sign === "\n" || sign === "\r")
+                    {
+                        // Equality, some editors strip the space of blank lines.
+                        op = DiffOperation.DIFF_EQUAL;
+                        remaining1--;
+                        remaining2--;
+                    }
+                    else if (sign === "\\" && hunk.diffs.length)
+                    {
+                        // "\ No newline at end of file", which applies to the previous line.
+                        const lastDiff = hunk.diffs[hunk.diffs.length - 1];
+                        lastDiff[1] = lastDiff[1].replace(/\n$/, "");
+                        pointer++;
+                        continue;
+                    }
+                    else
+                    {
+                        throw new Error('Invalid patch mode "' + sign + '" in: ' + bodyLine);
+                    }
+                    if (remaining1 < 0 || remaining2 < 0)
+                    {
+                        throw new Error("Hunk is longer than its header: " + line);
+                    }
+
+                    const content = sign === " " || sign === "-" || sign === "+" ? bodyLine.substring(1) : bodyLine;
+                    const lastDiff = hunk.diffs[hunk.diffs.length - 1];
+                    if (lastDiff && lastDiff[0] === op)
+                    {
+                        lastDiff[1] += content;
+                    }
+                    else
+                    {
+                        hunk.diffs.push([op, content]);
+                    }
+                    pointer++;
+                }
+            }
+            else
+            {
+                // Any other line.
+                pointer++;
+            }
+        }
+        return files;
+    }
+
+    /**
+     * Convert the hunks of a unified diff into a list of patches, which can be
+     * applied to the old text with patch_apply.
+     * The line numbers of the hunks are taken as the expected locations of the
+     * patches in the text, so the patches apply even if the text has drifted.
+     *
+     * @param {UnifiedDiffHunk[]} hunks Array of hunks, e.g. of a file returned by fromUnifiedDiff.
+     * @param {string} text Old text, which the line numbers refer to.
+     * @returns {PatchObject[]} Array of Patch objects.
+     */
+    public patch_fromUnifiedDiff(hunks: UnifiedDiffHunk[], text: string): PatchObject[]
+    {
+        // Offset of each line in the text, and the end of the text.
+        const lineStarts = [0];
+        const lines = this.merge_splitLines_(text);
+        for (let x = 0; x < lines.length; x++)
+        {
+            lineStarts.push(lineStarts[x] + lines[x].length);
+        }
+
+        const patches: PatchObject[] = [];
+        let delta = 0;
+        for (let x = 0; x < hunks.length; x++)
+        {
+            const hunk = hunks[x];
+            const patch = new PatchObject();
+            patch.diffs = hunk.diffs.map((diff): Diff => [diff[0], diff[1]]);
+            patch.start1 = lineStarts[math.min(hunk.start1, lineStarts.length - 1)];
+            patch.start2 = patch.start1;
+            patch.length1 = this.diff_text1(patch.diffs).length;
+            patch.length2 = this.diff_text2(patch.diffs).length;
+            // Surround the hunk with context from the text, as patch_apply takes a
+            // patch which doesn't start or end with an equality to be at the start
+            // or the end of the text, e.g. with "diff -U0".
+            this.patch_addContext_(patch, text);
+            patch.start2 = patch.start1 + delta;
+            delta += patch.length2 - patch.length1;
+            patches.push(patch);
+        }
+        return patches;
+    }
+
+    /**
+     * Convert a list of patches into text coloured by ANSI escape codes, for terminals.
+     *
+     * @param {PatchObject[]} patches Array of Patch objects.
+     * @param {DiffAnsiOptions} [optOptions] Optional options of the rendering, see diff_ansi.
+     * @returns {string} ANSI representation, with the header of each patch on a line of its own.
+     */
+    public patch_ansi(patches: PatchObject[], optOptions?: DiffAnsiOptions): string
+    {
+        const color = !optOptions || optOptions.color !== false;
+        const text: string[] = [];
+        for (let x = 0; x < patches.length; x++)
+        {
+            // Same header as patch_toText, e.g. "@@ -382,8 +481,9 @@".
+            const header = patches[x].toString().split("\n")[0];
+            text.push((color ? "\x1b[36m" + header + "\x1b[39m" : header) + "\n");
+            const body = this.diff_ansi(patches[x].diffs, optOptions);
+            text.push(body && !body.endsWith("\n") ? body + "\n" : body);
+        }
+        return text.join("");
+    }
+    //#endregion PATCH FUNCTIONS (public)
+
+    //#region MERGE FUNCTIONS (public)
+    /**
+     * Merge two texts which were both edited from the same base text, line by
+     * line. Lines changed on only one side are taken from that side, and lines
+     * changed on both sides in different ways are reported as conflicts.
+     *
+     * @param {string} base Common ancestor of both texts.
+     * @param {string} ours Our edit of the base.
+     * @param {string} theirs Their edit of the base.
+     * @returns {MergeHunk[]} Array of merge hunks, which add up to each of the
+     * three texts.
+     */
+    public merge3(base: string, ours: string, theirs: string): MergeHunk[]
+    {
+        // Check for null inputs.
+        if (base == null || ours == null || theirs == null)
+        {
+            throw new Error("Null input. (merge3)");
+        }
+
+        const baseLines = this.merge_splitLines_(base);
+        const oursLines = this.merge_splitLines_(ours);
+        const theirsLines = this.merge_splitLines_(theirs);
+        const oursMatches = this.merge_matchLines_(baseLines, oursLines);
+        const theirsMatches = this.merge_matchLines_(baseLines, theirsLines);
+
+        const hunks: MergeHunk[] = [];
+        let pointerBase = 0;
+        let pointerOurs = 0;
+        let pointerTheirs = 0;
+        while (true)
+        {
+            // Find the next base line which is kept by both sides.
+            let syncBase = pointerBase;
+            while (syncBase < baseLines.length
+                && (oursMatches[syncBase] === -1 || theirsMatches[syncBase] === -1))
+            {
+                syncBase++;
+            }
+            const syncOurs = syncBase < baseLines.length ? oursMatches[syncBase] : oursLines.length;
+            const syncTheirs = syncBase < baseLines.length ? theirsMatches[syncBase] : theirsLines.length;
+
+            // Everything up to there was changed by either side.
+            if (syncBase > pointerBase || syncOurs > pointerOurs || syncTheirs > pointerTheirs)
+            {
+                hunks.push(this.merge_classifyHunk_(
+                    baseLines.slice(pointerBase, syncBase).join(""),
+                    oursLines.slice(pointerOurs, syncOurs).join(""),
+                    theirsLines.slice(pointerTheirs, syncTheirs).join("")
+                ));
+            }
+            if (syncBase === baseLines.length)
+            {
+                break;
+            }
+
+            // Take the run of lines which are kept by both sides, side by side.
+            pointerBase = syncBase;
+            pointerOurs = syncOurs;
+            pointerTheirs = syncTheirs;
+            while (pointerBase < baseLines.length
+                && oursMatches[pointerBase] === pointerOurs
+                && theirsMatches[pointerBase] === pointerTheirs)
+            {
+                pointerBase++;
+                pointerOurs++;
+                pointerTheirs++;
+            }
+            const text = baseLines.slice(syncBase, pointerBase).join("");
+            hunks.push({ type: MergeHunkType.UNCHANGED, base: text, ours: text, theirs: text });
+        }
+        return hunks;
+    }
+
+    /**
+     * Write a three-way merge as text, the way git does. Hunks changed on either
+     * side are resolved, and conflicts are written between conflict markers, with
+     * the base in the middle unless it's null.
+     * Like git, a newline is added to a side which doesn't end with one, as the
+     * marker after it must start a line. Pass the texts of the sides to
+     * merge_fromText to remove it again.
+     *
+     * @param {MergeHunk[]} hunks Array of merge hunks.
+     * @param {MergeLabels} [optLabels] Optional labels to write after the markers.
+     * Defaults to "ours", "base" and "theirs".
+     * @returns {string} Text representation of the merge.
+     */
+    public merge_toText(hunks: MergeHunk[], optLabels?: MergeLabels): string
+    {
+        const labels: Required<MergeLabels> = { ours: "ours", base: "base", theirs: "theirs", ...optLabels };
+        const marker = (sign: string, label: string) => (label ? sign + " " + label : sign) + "\n";
+        // Markers must start on a line of their own.
+        const section = (text: string) => (text && !text.endsWith("\n") ? text + "\n" : text);
+
+        const text: string[] = [];
+        for (let x = 0; x < hunks.length; x++)
+        {
+            const hunk = hunks[x];
+            switch (hunk.type)
+            {
+                case MergeHunkType.UNCHANGED:
+                case MergeHunkType.OURS:
+                case MergeHunkType.BOTH_SAME:
+                    text.push(hunk.ours);
+                    break;
+                case MergeHunkType.THEIRS:
+                    text.push(hunk.theirs);
+                    break;
+                case MergeHunkType.CONFLICT:
+                    text.push(marker("<<<<<<<", labels.ours), section(hunk.ours));
+                    if (hunk.base !== null)
+                    {
+                        text.push(marker("|||||||", labels.base), section(hunk.base));
+                    }
+                    text.push(marker("=======", ""), section(hunk.theirs), marker(">>>>>>>", labels.theirs));
+                    break;
+            }
+        }
+        return text.join("");
+    }
+
+    /**
+     * Parse a textual representation of a three-way merge, see merge_toText.
+     * Also reads conflicts without a base, as written by git by default.
+     * The text doesn't tell whether the sides of a final conflict ended with a
+     * newline: given the texts of the sides, the newlines which merge_toText
+     * added are removed.
+     *
+     * @param {string} text Text representation of the merge.
+     * @param {string} [optBase] Optional text of the base.
+     * @param {string} [optOurs] Optional text of our side.
+     * @param {string} [optTheirs] Optional text of their side.
+     * @returns {MergeHunk[]} Array of merge hunks. The text outside of conflict
+     * markers is returned as UNCHANGED hunks, and the text between them as
+     * CONFLICT hunks, with a null base if there was none.
+     */
+    public merge_fromText(text: string, optBase?: string, optOurs?: string, optTheirs?: string): MergeHunk[]
+    {
+        const hunks: MergeHunk[] = [];
+        const lines = this.merge_splitLines_(text);
+        let resolved = "";
+        let conflict: MergeHunk | null = null;
+        let conflictStart = "";
+        let side: "ours" | "base" | "theirs" = "ours";
+        for (let x = 0; x < lines.length; x++)
+        {
+            const line = lines[x];
+            if (!conflict)
+            {
+                if (this.merge_isMarker_(line, "<<<<<<<"))
+                {
+                    if (resolved)
+                    {
+                        hunks.push({ type: MergeHunkType.UNCHANGED, base: resolved, ours: resolved, theirs: resolved });
+                        resolved = "";
+                    }
+                    conflict = { type: MergeHunkType.CONFLICT, base: null, ours: "", theirs: "" };
+                    conflictStart = line;
+                    side = "ours";
+                }
+                else
+                {
+                    resolved += line;
+                }
+            }
+            else if (side === "ours" && this.merge_isMarker_(line, "|||||||"))
+            {
+                side = "base";
+                conflict.base = "";
+            }
+            else if (side !== "theirs" && this.merge_isMarker_(line, "======="))
+            {
+                side = "theirs";
+            }
+            else if (side === "theirs" && this.merge_isMarker_(line, ">>>>>>>"))
+            {
+                hunks.push(conflict);
+                conflict = null;
+            }
+            else
+            {
+                conflict[side] += line;
+            }
+        }
+        if (conflict)
+        {
+            throw new Error("Unterminated conflict: " + conflictStart);
+        }
+        if (resolved)
+        {
+            hunks.push({ type: MergeHunkType.UNCHANGED, base: resolved, ours: resolved, theirs: resolved });
+        }
+        else if (hunks.length && hunks[hunks.length - 1].type === MergeHunkType.CONFLICT)
+        {
+            // A final conflict holds the end of each side, so a side which doesn't
+            // end with a newline lost the one added before the next marker.
+            const last = hunks[hunks.length - 1];
+            const sides: Array<["base" | "ours" | "theirs", string | undefined]> = [["base", optBase], ["ours", optOurs], ["theirs", optTheirs]];
+            for (const [name, sideText] of sides)
+            {
+                const section = last[name];
+                if (sideText && !sideText.endsWith("\n") && section && sideText.endsWith(section.slice(0, -1)))
+                {
+                    last[name] = section.slice(0, -1);
+                }
+            }
+        }
+        return hunks;
+    }
+
+    /**
+     * Find the differences between both sides of a merge hunk, e.g. to show a
+     * conflict with diff_prettyHtml.
+     *
+     * @param {MergeHunk} hunk The merge hunk.
+     * @returns {Diff[]} Array of diff tuples from our side to their side.
+     */
+    public merge_diffSides(hunk: MergeHunk): Diff[]
+    {
+        const diffs = this.diff_main(hunk.ours, hunk.theirs);
+        this.diff_cleanupSemantic(diffs);
+        return diffs;
+    }
+    //#endregion MERGE FUNCTIONS (public)
+
+    //#region DIFF FUNCTIONS (private)
+    /**
+     * Reorder and merge like edit sections. Merge equalities.
+     * Any edit section can move as long as it doesn't cross an equality.
+     * Unlike diff_cleanupMerge, doesn't realign the diff to units of text, so
+     * it also works on diffs of hashes.
+     *
+     * @private
+     * @param {Diff[]} diffs Array of diff tuples.
+     */
+    private diff_mergeEdits_(diffs: Diff[]): void
+    {
+        // Add a dummy entry at the end.
+        diffs.push([DiffOperation.DIFF_EQUAL, ""]);
+
+        let pointer = 0;
+        let countDelete = 0;
+        let countInsert = 0;
+        let textDelete = "";
+        let textInsert = "";
+        let commonlength: number;
+        while (pointer < diffs.length)
+        {
+            switch (diffs[pointer][0])
+            {
+                case DiffOperation.DIFF_INSERT:
+                    countInsert++;
+                    textInsert += diffs[pointer][1];
+                    pointer++;
+                    break;
+                case DiffOperation.DIFF_DELETE:
+                    countDelete++;
+                    textDelete += diffs[pointer][1];
+                    pointer++;
+                    break;
+                case DiffOperation.DIFF_EQUAL:
+                    // Upon reaching an equality, check for prior redundancies.
+                    if (countDelete + countInsert > 1)
+                    {
+                        if (countDelete !== 0 && countInsert !== 0)
+                        {
+                            // Factor out any common prefixes.
+                            commonlength = this.diff_commonPrefix(textInsert, textDelete);
+                            if (commonlength !== 0)
+                            {
+                                if ((pointer - countDelete - countInsert) > 0 &&
+                                    (
+                                        diffs[pointer - countDelete - countInsert - 1][0]
+                                        === DiffOperation.DIFF_EQUAL
+                                    )
+                                )
+                                {
+                                    diffs[pointer - countDelete - countInsert - 1][1]
+                                        += textInsert.substring(0, commonlength);
+                                }
+                                else
+                                {
+                                    diffs.splice(
+                                        0,
+                                        0,
+                                        [DiffOperation.DIFF_EQUAL, textInsert.substring(0, commonlength)]
+                                    );
+                                    pointer++;
+                                }
+                                textInsert = textInsert.substring(commonlength);
+                                textDelete = textDelete.substring(commonlength);
+                            }
+                            // Factor out any common suffixes.
+                            commonlength = this.diff_commonSuffix(textInsert, textDelete);
+                            if (commonlength !== 0)
+                            {
+                                diffs[pointer][1] = textInsert.substring(textInsert.length
+                                    - commonlength) + diffs[pointer][1];
+                                textInsert = textInsert.substring(0, textInsert.length - commonlength);
+                                textDelete = textDelete.substring(0, textDelete.length - commonlength);
+                            }
+                        }
+                        // Delete the offending records and add the merged ones.
+                        pointer -= countDelete + countInsert;
+                        diffs.splice(pointer, countDelete + countInsert);
+                        if (textDelete.length)
+                        {
+                            diffs.splice(pointer, 0, [DiffOperation.DIFF_DELETE, textDelete]);
+                            pointer++;
+                        }
+                        if (textInsert.length)
+                        {
+                            diffs.splice(pointer, 0, [DiffOperation.DIFF_INSERT, textInsert]);
+                            pointer++;
+                        }
+                        pointer++;
+                    }
+                    else if (pointer !== 0 && diffs[pointer - 1][0] === DiffOperation.DIFF_EQUAL)
+                    {
+                        // Merge this equality with the previous one.
+                        diffs[pointer - 1][1] += diffs[pointer][1];
+                        diffs.splice(pointer, 1);
+                    }
+                    else
+                    {
+                        pointer++;
+                    }
+                    countInsert = 0;
+                    countDelete = 0;
+                    textDelete = "";
+                    textInsert = "";
+                    break;
+            }
+        }
+        if (diffs[diffs.length - 1][1] === "")
+        {
+            diffs.pop(); // Remove the dummy entry at the end.
+        }
+
+        // Second pass: look for single edits surrounded on both sides by equalities
+        // which can be shifted sideways to eliminate an equality.
+        // e.g: A<ins>BA</ins>C -> <ins>AB</ins>AC
+        let changes = false;
+        pointer = 1;
+        // Intentionally ignore the first and last element (don't need checking).
+        while (pointer < diffs.length - 1)
+        {
+            if (diffs[pointer - 1][0] === DiffOperation.DIFF_EQUAL &&
+                diffs[pointer + 1][0] === DiffOperation.DIFF_EQUAL)
+            {
+                // This is a single edit surrounded by equalities.
+                if (diffs[pointer][1].substring(diffs[pointer][1].length - diffs[pointer - 1][1].length)
+                    === diffs[pointer - 1][1])
+                {
+                    // Shift the edit over the previous equality.
+                    diffs[pointer][1] = diffs[pointer - 1][1]
+                        + diffs[pointer][1].substring(
+                            0,
+                            diffs[pointer][1].length - diffs[pointer - 1][1].length
+                        );
+                    diffs[pointer + 1][1] = diffs[pointer - 1][1] + diffs[pointer + 1][1];
+                    diffs.splice(pointer - 1, 1);
+                    changes = true;
+                }
+                else if (diffs[pointer][1].substring(0, diffs[pointer + 1][1].length)
+                    === diffs[pointer + 1][1])
+                {
+                    // Shift the edit over the next equality.
+                    diffs[pointer - 1][1] += diffs[pointer + 1][1];
+                    diffs[pointer][1] = diffs[pointer][1].substring(diffs[pointer + 1][1].length)
+                        + diffs[pointer + 1][1];
+                    diffs.splice(pointer + 1, 1);
+                    changes = true;
+                }
+            }
+            pointer++;
+        }
+        // If shifts were made, the diff needs reordering and another shift sweep.
+        if (changes)
+        {
+            this.diff_mergeEdits_(diffs);
+        }
+    }
+
+    /**
+     * Parse a JSON document of diff_fromJSON or patch_fromJSON, and check its
+     * version and the array it holds.
+     *
+     * @private
+     * @param {unknown} json The JSON document, either as text or already parsed.
+     * @param {string} key Name of the array, i.e. "diffs" or "patches".
+     * @param {string} caller Name of the calling method, for the error messages.
+     * @returns {Record<string, unknown>} The parsed document.
+     * @throws {Error} If the document is malformed.
+     */
+    private diff_parseJson_(json: unknown, key: string, caller: string): Record<string, unknown>
+    {
+        if (typeof json === "string")
+        {
+            try
+            {
+                json = JSON.parse(json);
+            }
+            catch (e)
+            {
+                throw new Error("Invalid JSON in " + caller + ": " + (e as Error).message);
+            }
+        }
+        if (json === null || typeof json !== "object" || Array.isArray(json))
+        {
+            throw new Error("Invalid JSON in " + caller + ": the document must be an object");
+        }
+        const document = json as Record<string, unknown>;
+        if (document.version !== JSON_SCHEMA_VERSION)
+        {
+            throw new Error("Unsupported version in " + caller + ": " + document.version);
+        }
+        if (!Array.isArray(document[key]))
+        {
+            throw new Error("Invalid JSON in " + caller + ": " + key + " must be an array");
+        }
+        return document;
+    }
+
+    /**
+     * Check a diff array read from JSON, see DiffJson.
+     *
+     * @private
+     * @param {unknown} value The value to check.
+     * @param {string} path Path of the value in the document, for the error messages.
+     * @param {string} caller Name of the calling method, for the error messages.
+     * @returns {Diff[]} A copy of the diff array.
+     * @throws {Error} If the diff array is malformed.
+     */
+    private diff_validateDiffs_(value: unknown, path: string, caller: string): Diff[]
+    {
+        if (!Array.isArray(value))
+        {
+            throw new Error("Invalid JSON in " + caller + ": " + path + " must be an array");
+        }
+        return value.map((diff: unknown, x) =>
+        {
+            const diffPath = path + "[" + x + "]";
+            if (!Array.isArray(diff) || diff.length !== 2)
+            {
+                throw new Error("Invalid JSON in " + caller + ": " + diffPath + " must be a tuple of [op, text]");
+            }
+            if (
+                diff[0] !== DiffOperation.DIFF_DELETE
+                && diff[0] !== DiffOperation.DIFF_INSERT
+                && diff[0] !== DiffOperation.DIFF_EQUAL
+            )
+            {
+                throw new Error("Invalid JSON in " + caller + ": " + diffPath + "[0] must be -1, 0 or 1");
+            }
+            if (typeof diff[1] !== "string")
+            {
+                throw new Error("Invalid JSON in " + caller + ": " + diffPath + "[1] must be a string");
+            }
+            return [diff[0], diff[1]];
+        });
+    }
+
+    /**
+     * Fill in the defaults of the options of an HTML rendering, see diff_html.
+     *
+     * @private
+     * @param {DiffHtmlOptions} [optOptions] Optional options of the rendering.
+     * @returns {Required<DiffHtmlOptions>} The options, with undefined ones set
+     * to their defaults.
+     */
+    private diff_htmlOptions_(optOptions?: DiffHtmlOptions): Required<DiffHtmlOptions>
+    {
+        const options: Required<DiffHtmlOptions> = {
+            insertTag: "ins",
+            deleteTag: "del",
+            equalTag: "span",
+            insertClass: "diff-insert",
+            deleteClass: "diff-delete",
+            equalClass: "diff-equal",
+            tableClass: "diff-side-by-side",
+            lineNumberClass: "diff-line-number",
+            lineInsertClass: "diff-line-insert",
+            lineDeleteClass: "diff-line-delete",
+            lineEqualClass: "diff-line-equal",
+            newline: "&para;<br>",
+            space: " ",
+            tab: "\t",
+            attributes: () => ({})
+        };
+        if (optOptions)
+        {
+            for (const name of Object.keys(optOptions) as Array<keyof DiffHtmlOptions>)
+            {
+                if (optOptions[name] !== undefined)
+                {
+                    Object.assign(options, { [name]: optOptions[name] });
+                }
+            }
+        }
+        return options;
+    }
+
+    /**
+     * Render a diff tuple as an HTML element, see diff_html.
+     *
+     * @private
+     * @param {DiffOperation} op Operation of the diff tuple.
+     * @param {string} data Text of the diff tuple.
+     * @param {Required<DiffHtmlOptions>} options Options of the rendering.
+     * @returns {string} HTML representation.
+     * @throws {Error} If an attribute name isn't made of letters, digits and "-".
+     */
+    private diff_htmlElement_(op: DiffOperation, data: string, options: Required<DiffHtmlOptions>): string
+    {
+        const elements: Record<DiffOperation, [string, string]> = {
+            [DiffOperation.DIFF_INSERT]: [options.insertTag, options.insertClass],
+            [DiffOperation.DIFF_DELETE]: [options.deleteTag, options.deleteClass],
+            [DiffOperation.DIFF_EQUAL]: [options.equalTag, options.equalClass]
+        };
+        const whitespace: Record<string, string> = { "\n": options.newline, " ": options.space, "\t": options.tab };
+
+        const [tag, className] = elements[op];
+        const attributes: Record<string, string> = className ? { class: className } : {};
+        Object.assign(attributes, options.attributes(op, data));
+        let element = "<" + tag;
+        for (const name of Object.keys(attributes))
+        {
+            // Names can't be escaped, so only safe ones are written.
+            if (!HTML_ATTRIBUTE_NAME_REGEX.test(name))
+            {
+                throw new Error("Invalid attribute name: " + name);
+            }
+            element += " " + name + '="' + this.diff_escapeHtml_(attributes[name]).replace(/"/g, "&quot;") + '"';
+        }
+        const text = this.diff_escapeHtml_(data).replace(/[\n \t]/g, (char) => whitespace[char]);
+        return element + ">" + text + "</" + tag + ">";
+    }
+
+    /**
+     * Escape the special characters of HTML in a text.
+     *
+     * @private
+     * @param {string} text Text to escape.
+     * @returns {string} The escaped text.
+     */
+    private diff_escapeHtml_(text: string): string
+    {
+        return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+    }
+
+    /**
+     * Split a diff array into the lines of both texts. A line which is the same
+     * in both texts is returned once as unchanged, and the changed lines between
+     * two unchanged ones are returned as the deleted lines of the old text, then
+     * the inserted lines of the new text.
+     *
+     * @private
+     * @param {Diff[]} diffs Array of diff tuples.
+     * @returns {Array<[DiffOperation, Diff[]]>} Array of lines, each of which is
+     * its operation and the diff tuples it's made of, with its newline.
+     */
+    private diff_lines_(diffs: Diff[]): Array<[DiffOperation, Diff[]]>
+    {
+        const lines: Array<[DiffOperation, Diff[]]> = [];
+        // Collect the changed lines of both texts until the next unchanged line.
+        let lines1: Diff[][] = [];
+        let lines2: Diff[][] = [];
+        let line1: Diff[] = [];
+        let line2: Diff[] = [];
+        const flush = () =>
+        {
+            for (let x = 0; x < lines1.length; x++)
+            {
+                lines.push([DiffOperation.DIFF_DELETE, lines1[x]]);
+            }
+            for (let x = 0; x < lines2.length; x++)
+            {
+                lines.push([DiffOperation.DIFF_INSERT, lines2[x]]);
+            }
+            lines1 = [];
+            lines2 = [];
+        };
+        for (let x = 0; x < diffs.length; x++)
+        {
+            const [op, data] = diffs[x];
+            const pieces = this.merge_splitLines_(data);
+            for (let y = 0; y < pieces.length; y++)
+            {
+                const piece = pieces[y];
+                const complete = piece.endsWith("\n");
+                if (
+                    op === DiffOperation.DIFF_EQUAL
+                    && line1.length === 0
+                    && line2.length === 0
+                    && (complete || x === diffs.length - 1)
+                )
+                {
+                    // A whole line which is the same in both texts.
+                    flush();
+                    lines.push([DiffOperation.DIFF_EQUAL, [[op, piece]]]);
+                    continue;
+                }
+                if (op !== DiffOperation.DIFF_INSERT)
+                {
+                    line1.push([op, piece]);
+                    if (complete)
+                    {
+                        lines1.push(line1);
+                        line1 = [];
+                    }
+                }
+                if (op !== DiffOperation.DIFF_DELETE)
+                {
+                    line2.push([op, piece]);
+                    if (complete)
+                    {
+                        lines2.push(line2);
+                        line2 = [];
+                    }
+                }
+            }
+        }
+        if (line1.length)
+        {
+            lines1.push(line1);
+        }
+        if (line2.length)
+        {
+            lines2.push(line2);
+        }
+        flush();
+        return lines;
+    }
+
+    /**
+     * Render one change of a diff for diff_ansi.
+     *
+     * @private
+     * @param {DiffOperation} op Operation of the change.
+     * @param {string} text Text of the change.
+     * @param {Required<DiffAnsiOptions>} options Options of the rendering.
+     * @param {boolean} highlight Whether the change is highlighted within a line,
+     * rather than coloured.
+     * @returns {string} ANSI representation of the change.
+     */
+    private diff_ansiChange_(op: DiffOperation, text: string, options: Required<DiffAnsiOptions>, highlight: boolean): string
+    {
+        if (op === DiffOperation.DIFF_EQUAL)
+        {
+            return text;
+        }
+        if (options.markers)
+        {
+            text = op === DiffOperation.DIFF_DELETE ? "[-" + text + "-]" : "{+" + text + "+}";
+        }
+        if (!options.color)
+        {
+            return text;
+        }
+        let start = op === DiffOperation.DIFF_DELETE ? "\x1b[31m" : "\x1b[32m";
+        let end = "\x1b[39m";
+        if (highlight)
+        {
+            // Reverse video, within a line which is already coloured.
+            start = "\x1b[7m";
+            end = "\x1b[27m";
+        }
+        // Colour each line on its own, so that no colour leaks past a newline.
+        return text.replace(/[^\n]+/g, (line) => start + line + end);
+    }
+
+    /**
+     * Render one line of diff_ansi in the LINES mode.
+     *
+     * @private
+     * @param {DiffOperation} op Whether the line is deleted, inserted or unchanged.
+     * @param {Diff[]} segments Parts of the line, where the changes are highlighted.
+     * @param {Required<DiffAnsiOptions>} options Options of the rendering.
+     * @returns {string} ANSI representation of the line, ending with a newline.
+     */
+    private diff_ansiLine_(op: DiffOperation, segments: Diff[], options: Required<DiffAnsiOptions>): string
+    {
+        // The newline is written after the colour ends.
+        const last = segments[segments.length - 1];
+        segments = segments.slice(0, -1).concat([[last[0], last[1].replace(/\n$/, "")]]);
+
+        // Don't highlight a line which changed as a whole.
+        const highlight = segments.some((segment) => segment[0] === DiffOperation.DIFF_EQUAL && segment[1] !== "");
+        let line = op === DiffOperation.DIFF_DELETE ? "-" : op === DiffOperation.DIFF_INSERT ? "+" : " ";
+        for (let x = 0; x < segments.length; x++)
+        {
+            const [segmentOp, text] = segments[x];
+            if (text !== "")
+            {
+                line += highlight ? this.diff_ansiChange_(segmentOp, text, options, true) : text;
+            }
+        }
+        if (options.color && op !== DiffOperation.DIFF_EQUAL)
+        {
+            line = (op === DiffOperation.DIFF_DELETE ? "\x1b[31m" : "\x1b[32m") + line + "\x1b[39m";
+        }
+        return line + "\n";
+    }
+
+    /**
+     * Escape the characters of a text which Markdown would read as formatting.
+     *
+     * @private
+     * @param {string} text Text to escape.
+     * @returns {string} The escaped text.
+     */
+    private diff_escapeMarkdown_(text: string): string
+    {
+        return text.replace(/[\\`*_~[\]<>]/g, "\\$&");
+    }
+
+    /**
+     * Find the differences between two texts line by line.
+     *
+     * @private
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @returns {Diff[]} Array of diff tuples, one for each line, where each line
+     * keeps its newline.
+     */
+    private diff_byLine_(text1: string, text2: string): Diff[]
+    {
+        const lines: Diff[] = [];
+        const sequenceDiffs = this.diffSequences(this.merge_splitLines_(text1), this.merge_splitLines_(text2));
+        for (let x = 0; x < sequenceDiffs.length; x++)
+        {
+            const [op, items] = sequenceDiffs[x];
+            for (let y = 0; y < items.length; y++)
+            {
+                lines.push([op, items[y]]);
+            }
+        }
+        return lines;
+    }
+
+    /**
+     * Run the steps of a diff to completion.
+     *
+     * @private
+     * @param {Generator<void, T>} steps The diff, paused at each step.
+     * @returns {T} The result of the diff.
+     */
+    private diff_runSteps_<T>(steps: Generator<void, T>): T
+    {
+        let step = steps.next();
+        while (!step.done)
+        {
+            step = steps.next();
+        }
+        return step.value;
+    }
+
+    /**
+     * Run the steps of a diff to completion, yielding to the event loop every
+     * 10 milliseconds and checking for cancellation after each step.
+     *
+     * @private
+     * @param {Generator<void, T>} steps The diff, paused at each step.
+     * @param {AbortSignal} [signal] Optional signal to cancel the diff with.
+     * @returns {Promise<T>} The result of the diff.
+     */
+    private async diff_runStepsAsync_<T>(steps: Generator<void, T>, signal?: AbortSignal): Promise<T>
+    {
+        let sliceStart = Date.now();
+        while (true)
+        {
+            signal?.throwIfAborted();
+            const step = steps.next();
+            if (step.done)
+            {
+                return step.value;
+            }
+            if (Date.now() - sliceStart >= 10)
+            {
+                await new Promise((resolve) => setTimeout(resolve, 0));
+                sliceStart = Date.now();
+            }
+        }
+    }
+
+    /**
+     * Set the limits of a new diff.
+     *
+     * @private
+     * @param {number} [optDeadline] Optional time when the diff should be complete
+     * by. Defaults to DiffTimeout from now, or to never if a DiffBudget is set.
+     * @returns {DiffRun} Limits of the diff.
+     */
+    private diff_newRun_(optDeadline?: number): DiffRun
+    {
+        // Set a deadline by which time the diff must be complete.
+        if (typeof optDeadline === "undefined")
+        {
+            if (this.diffTimeout <= 0 || this.diffBudget > 0)
+            {
+                optDeadline = Number.MAX_VALUE;
+            }
+            else
+            {
+                optDeadline = Date.now() + this.diffTimeout * 1000;
+            }
+        }
+        return {
+            deadline: optDeadline,
+            budget: this.diffBudget > 0 ? this.diffBudget : Infinity,
+            truncated: false,
+            strategies: []
+        };
+    }
+
+    /**
+     * Record that a diff used the given strategy.
+     *
+     * @private
+     * @param {DiffRun} run Limits and progress of the diff.
+     * @param {DiffStrategy} strategy The strategy used.
+     */
+    private diff_useStrategy_(run: DiffRun, strategy: DiffStrategy): void
+    {
+        if (!run.strategies.includes(strategy))
+        {
+            run.strategies.push(strategy);
+        }
+    }
+
+    /**
+     * Find the differences between two texts, see diff_main, ignoring the
+     * given whitespace changes, and the changes set by DiffIgnoreCase and
+     * DiffNormalization.
+     * The texts are diffed without those changes, then the diff is mapped back
+     * onto the texts. The ignored changes only affect the alignment: where the
+     * texts of an equality differ, the differences are kept as edits between the
+     * equal characters, so that the diff still reproduces both texts.
+     *
+     * @private
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @param {(boolean | DiffTokenizer)} [optChecklines] Optional speedup flag.
+     * @param {DiffRun} run Limits of the diff.
+     * @param {DiffWhitespace} whitespace Whitespace changes to ignore.
+     * @returns {Generator<void, Diff[]>} Array of diff tuples.
+     */
+    private *diff_normalizedSteps_(
+        text1: string,
+        text2: string,
+        optChecklines: boolean | DiffTokenizer | undefined,
+        run: DiffRun,
+        whitespace: DiffWhitespace
+    ): Generator<void, Diff[]>
+    {
+        if ((whitespace === DiffWhitespace.NONE && !this.diffIgnoreCase && !this.diffNormalization)
+            || text1 == null || text2 == null)
+        {
+            const plainDiffs = yield* this.diff_mainSteps_(text1, text2, optChecklines, run);
+            this.diff_cleanupUnits(plainDiffs);
+            return plainDiffs;
+        }
+
+        const normal1 = this.diff_normalize_(text1, whitespace);
+        const normal2 = this.diff_normalize_(text2, whitespace);
+        const normalDiffs = yield* this.diff_mainSteps_(normal1.text, normal2.text, optChecklines, run);
+
+        // Map the diff back onto the texts. The ignored characters belong to the
+        // diff tuple after them.
+        const diffs: Diff[] = [];
+        let pendingDelete = "";
+        let pendingInsert = "";
+        const push = (op: DiffOperation, text: string) =>
+        {
+            if (op === DiffOperation.DIFF_DELETE)
+            {
+                pendingDelete += text;
+            }
+            else if (op === DiffOperation.DIFF_INSERT)
+            {
+                pendingInsert += text;
+            }
+            else if (text)
+            {
+                if (pendingDelete)
+                {
+                    diffs.push([DiffOperation.DIFF_DELETE, pendingDelete]);
+                    pendingDelete = "";
+                }
+                if (pendingInsert)
+                {
+                    diffs.push([DiffOperation.DIFF_INSERT, pendingInsert]);
+                    pendingInsert = "";
+                }
+                if (diffs.length && diffs[diffs.length - 1][0] === DiffOperation.DIFF_EQUAL)
+                {
+                    diffs[diffs.length - 1][1] += text;
+                }
+                else
+                {
+                    diffs.push([DiffOperation.DIFF_EQUAL, text]);
+                }
+            }
+        };
+        let pointer1 = 0;
+        let pointer2 = 0;
+        let normalPointer1 = 0;
+        let normalPointer2 = 0;
+        for (let x = 0; x <= normalDiffs.length; x++)
+        {
+            const normalStart1 = normalPointer1;
+            const normalStart2 = normalPointer2;
+            let op = DiffOperation.DIFF_EQUAL;
+            let end1 = text1.length;
+            let end2 = text2.length;
+            if (x < normalDiffs.length)
+            {
+                op = normalDiffs[x][0];
+                const length = normalDiffs[x][1].length;
+                if (op !== DiffOperation.DIFF_INSERT)
+                {
+                    normalPointer1 += length;
+                }
+                if (op !== DiffOperation.DIFF_DELETE)
+                {
+                    normalPointer2 += length;
+                }
+                if (normalPointer1 < normal1.text.length)
+                {
+                    end1 = normalPointer1 === 0 ? 0 : normal1.ends[normalPointer1 - 1];
+                }
+                if (normalPointer2 < normal2.text.length)
+                {
+                    end2 = normalPointer2 === 0 ? 0 : normal2.ends[normalPointer2 - 1];
+                }
+            }
+            if (op === DiffOperation.DIFF_EQUAL && text1.substring(pointer1, end1) !== text2.substring(pointer2, end2))
+            {
+                // Only the ignored changes differ. Align both texts on each
+                // character of the equality, and keep what differs as edits.
+                const length = normalPointer1 - normalStart1;
+                let blockStart1 = pointer1;
+                let blockStart2 = pointer2;
+                for (let y = 1; y <= math.max(length, 1); y++)
+                {
+                    let blockEnd1 = end1;
+                    let blockEnd2 = end2;
+                    if (y < length)
+                    {
+                        blockEnd1 = normal1.ends[normalStart1 + y - 1];
+                        blockEnd2 = normal2.ends[normalStart2 + y - 1];
+                        if (blockEnd1 === normal1.ends[normalStart1 + y] || blockEnd2 === normal2.ends[normalStart2 + y])
+                        {
+                            // Within a character which folds into several, e.g. "ß".
+                            continue;
+                        }
+                    }
+                    const block1 = text1.substring(blockStart1, blockEnd1);
+                    const block2 = text2.substring(blockStart2, blockEnd2);
+                    blockStart1 = blockEnd1;
+                    blockStart2 = blockEnd2;
+                    const prefixLength = this.diff_commonPrefix(block1, block2);
+                    const suffixLength = this.diff_commonSuffix(block1.substring(prefixLength), block2.substring(prefixLength));
+                    push(DiffOperation.DIFF_EQUAL, block1.substring(0, prefixLength));
+                    push(DiffOperation.DIFF_DELETE, block1.substring(prefixLength, block1.length - suffixLength));
+                    push(DiffOperation.DIFF_INSERT, block2.substring(prefixLength, block2.length - suffixLength));
+                    push(DiffOperation.DIFF_EQUAL, block1.substring(block1.length - suffixLength));
+                }
+            }
+            else if (op === DiffOperation.DIFF_EQUAL)
+            {
+                push(op, text1.substring(pointer1, end1));
+            }
+            else
+            {
+                push(DiffOperation.DIFF_DELETE, text1.substring(pointer1, end1));
+                push(DiffOperation.DIFF_INSERT, text2.substring(pointer2, end2));
+            }
+            pointer1 = end1;
+            pointer2 = end2;
+        }
+        if (pendingDelete)
+        {
+            diffs.push([DiffOperation.DIFF_DELETE, pendingDelete]);
+        }
+        if (pendingInsert)
+        {
+            diffs.push([DiffOperation.DIFF_INSERT, pendingInsert]);
+        }
+        this.diff_cleanupMerge(diffs);
+        return diffs;
+    }
+
+    /**
+     * Find the differences between two texts, see diff_main.
+     * Pauses periodically so that the diff can be run asynchronously.
+     *
+     * @private
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @param {(boolean | DiffTokenizer)} [optChecklines] Optional speedup flag.
+     * @param {DiffRun} run Limits of the diff.
+     * @returns {Generator<void, Diff[]>} Array of diff tuples.
+     */
+    private *diff_mainSteps_(
+        text1: string,
+        text2: string,
+        optChecklines: boolean | DiffTokenizer | undefined,
+        run: DiffRun
+    ): Generator<void, Diff[]>
+    {
+        // Check for null inputs.
+        if (text1 == null || text2 == null)
+        {
+            throw new Error("Null input. (diff_main)");
+        }
+
+        // Check for equality (speedup).
+        if (text1 === text2)
+        {
+            if (text1)
+            {
+                return [[DiffOperation.DIFF_EQUAL, text1]];
+            }
+            return [];
+        }
+
+        if (typeof optChecklines === "object")
+        {
+            return yield* this.diff_tokenMode_(text1, text2, optChecklines, run);
+        }
+
+        if (typeof optChecklines === "undefined")
+        {
+            optChecklines = true;
+        }
+        const checklines = optChecklines;
+
+        // Trim off common prefix (speedup).
+        let commonlength = this.diff_commonPrefix(text1, text2);
+        const commonprefix = text1.substring(0, commonlength);
+        text1 = text1.substring(commonlength);
+        text2 = text2.substring(commonlength);
+
+        // Trim off common suffix (speedup).
+        commonlength = this.diff_commonSuffix(text1, text2);
+        const commonsuffix = text1.substring(text1.length - commonlength);
+        text1 = text1.substring(0, text1.length - commonlength);
+        text2 = text2.substring(0, text2.length - commonlength);
+
+        // Compute the diff on the middle block.
+        const diffs: Diff[] = yield* this.diff_compute_(text1, text2, checklines, run);
+
+        // Restore the prefix and suffix.
+        if (commonprefix)
+        {
+            diffs.unshift([DiffOperation.DIFF_EQUAL, commonprefix]);
+        }
+        if (commonsuffix)
+        {
+            diffs.push([DiffOperation.DIFF_EQUAL, commonsuffix]);
+        }
+        this.diff_mergeEdits_(diffs);
+        return diffs;
+    }
+
+    /**
+     * Find the differences between two texts. Assumes that the texts do not
+     * have any common prefix or suffix.
+     *
+     * @private
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @param {boolean} checklines Speedup flag. If false, then don't run a
+     * line-level diff first to identify the changed areas.
+     * If true, then run a faster, slightly less optimal diff.
+     * @param {DiffRun} run Limits of the diff.
+     * @returns {Generator<void, Diff[]>} Array of diff tuples.
+     */
+    private *diff_compute_(text1: string, text2: string, checklines: boolean, run: DiffRun): Generator<void, Diff[]>
+    {
+        let diffs: Diff[];
+
+        if (!text1)
+        {
+            // Just add some text (speedup).
+            return [[DiffOperation.DIFF_INSERT, text2]];
+        }
+
+        if (!text2)
+        {
+            // Just delete some text (speedup).
+            return [[DiffOperation.DIFF_DELETE, text1]];
+        }
+
+        const longtext = text1.length > text2.length ? text1 : text2;
+        const shorttext = text1.length > text2.length ? text2 : text1;
+        const i = longtext.indexOf(shorttext);
+        if (i !== -1)
+        {
+            // Shorter text is inside the longer text (speedup).
+            diffs = [
+                [DiffOperation.DIFF_INSERT, longtext.substring(0, i)],
+                [DiffOperation.DIFF_EQUAL, shorttext],
+                [DiffOperation.DIFF_INSERT, longtext.substring(i + shorttext.length)]
+            ];
+            // Swap insertions for deletions if diff is reversed.
+            if (text1.length > text2.length)
+            {
+                diffs[0][0] = DiffOperation.DIFF_DELETE;
+                diffs[2][0] = DiffOperation.DIFF_DELETE;
+            }
+            return diffs;
+        }
+
+        if (shorttext.length === 1)
+        {
+            // Single character string.
+            // After the previous speedup, the character can't be an equality.
+            return [
+                [DiffOperation.DIFF_DELETE, text1],
+                [DiffOperation.DIFF_INSERT, text2]
+            ];
+        }
+
+        // Check to see if the problem can be split in two.
+        const hm = this.diff_halfMatch_(text1, text2);
+        if (hm)
+        {
+            // A half-match was found, sort out the return data.
+            this.diff_useStrategy_(run, DiffStrategy.HALF_MATCH);
+            const text1A = hm[0];
+            const text1B = hm[1];
+            const text2A = hm[2];
+            const text2B = hm[3];
+            const midCommon = hm[4];
+            // Send both pairs off for separate processing.
+            const diffsA = yield* this.diff_mainSteps_(text1A, text2A, checklines, run);
+            const diffsB = yield* this.diff_mainSteps_(text1B, text2B, checklines, run);
+            // Merge the results.
+            return diffsA.concat([[DiffOperation.DIFF_EQUAL, midCommon]], diffsB);
+        }
+
+        if (checklines && text1.length > 100 && text2.length > 100)
+        {
+            if (this.diffAlgorithm !== DiffAlgorithm.MYERS)
+            {
+                return yield* this.diff_anchoredLineMode_(text1, text2, run);
+            }
+            return yield* this.diff_lineMode_(text1, text2, run);
+        }
+
+        return yield* this.diff_bisectSteps_(text1, text2, run);
+    }
+
+    /**
+     * Do a quick line-level diff on both strings, then re-diff the parts for
+     * greater accuracy.
+     * This speedup can produce non-minimal diffs.
+     *
+     * @private
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @param {DiffRun} run Limits of the diff.
+     * @returns {Generator<void, Diff[]>} Array of diff tuples.
+     */
+    private *diff_lineMode_(text1: string, text2: string, run: DiffRun): Generator<void, Diff[]>
+    {
+        this.diff_useStrategy_(run, DiffStrategy.LINE_MODE);
+        // Scan the text on a line-by-line basis first.
+        const a = this.diff_linesToChars(text1, text2);
+        text1 = a.chars1;
+        text2 = a.chars2;
+        const linearray = a.lineArray;
+
+        const diffs = yield* this.diff_mainSteps_(text1, text2, false, run);
+
+        // Convert the diff back to original text.
+        this.diff_charsToLines(diffs, linearray);
+        // Eliminate freak matches (e.g. blank lines)
+        this.diff_cleanupSemantic(diffs);
+
+        // Re-diff any replacement blocks, this time character-by-character.
+        yield* this.diff_rediffReplacements_(diffs, run);
+
+        return diffs;
+    }
+
+    /**
+     * Do a token-level diff on both strings.
+     *
+     * @private
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @param {DiffTokenizer} tokenizer Tokenizer to split the texts with.
+     * @param {DiffRun} run Limits of the diff.
+     * @returns {Generator<void, Diff[]>} Array of diff tuples.
+     */
+    private *diff_tokenMode_(text1: string, text2: string, tokenizer: DiffTokenizer, run: DiffRun): Generator<void, Diff[]>
+    {
+        this.diff_useStrategy_(run, DiffStrategy.TOKEN_MODE);
+        const a = this.diff_tokensToChars(text1, text2, tokenizer);
+        const diffs = yield* this.diff_mainSteps_(a.chars1, a.chars2, false, run);
+
+        // Convert the diff back to original text.
+        this.diff_charsToTokens(diffs, a.tokenArray);
+        return diffs;
+    }
+
+    /**
+     * Re-diff any replacement blocks (a deletion next to an insertion)
+     * character-by-character.
+     *
+     * @private
+     * @param {Diff[]} diffs Array of diff tuples, modified in place.
+     * @param {DiffRun} run Limits of the diff.
+     */
+    private *diff_rediffReplacements_(diffs: Diff[], run: DiffRun): Generator<void, void>
+    {
+        // Rebuild the diff rather than splicing it, which is quadratic on large diffs.
+        const result: Diff[] = [];
+        // Add a dummy entry at the end.
+        diffs.push([DiffOperation.DIFF_EQUAL, ""]);
+        let pending: Diff[] = [];
+        let countDelete = 0;
+        let countInsert = 0;
+        let textDelete = "";
+        let textInsert = "";
+        for (let pointer = 0; pointer < diffs.length; pointer++)
+        {
+            switch (diffs[pointer][0])
+            {
+                case DiffOperation.DIFF_INSERT:
+                    countInsert++;
+                    textInsert += diffs[pointer][1];
+                    pending.push(diffs[pointer]);
+                    break;
+                case DiffOperation.DIFF_DELETE:
+                    countDelete++;
+                    textDelete += diffs[pointer][1];
+                    pending.push(diffs[pointer]);
+                    break;
+                case DiffOperation.DIFF_EQUAL:
+                    // Upon reaching an equality, check for prior redundancies.
+                    if (countDelete >= 1 && countInsert >= 1)
+                    {
+                        // Replace the offending records with the merged ones.
+                        pending = yield* this.diff_mainSteps_(textDelete, textInsert, false, run);
+                    }
+                    for (let x = 0; x < pending.length; x++)
+                    {
+                        result.push(pending[x]);
+                    }
+                    result.push(diffs[pointer]);
+                    pending = [];
+                    countInsert = 0;
+                    countDelete = 0;
+                    textDelete = "";
                     textInsert = "";
                     break;
             }
-            pointer++;
         }
-        // Remove the dummy entry at the end.
-        diffs.pop();
+        // Remove the dummy entry at the end.
+        result.pop();
+        diffs.length = 0;
+        for (let x = 0; x < result.length; x++)
+        {
+            diffs.push(result[x]);
+        }
+    }
+
+    /**
+     * Do a patience or histogram diff on a line-by-line basis, then re-diff the
+     * parts for greater accuracy.
+     *
+     * @private
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @param {DiffRun} run Limits of the diff.
+     * @returns {Generator<void, Diff[]>} Array of diff tuples.
+     */
+    private *diff_anchoredLineMode_(text1: string, text2: string, run: DiffRun): Generator<void, Diff[]>
+    {
+        this.diff_useStrategy_(run, DiffStrategy.LINE_MODE);
+        // Scan the text on a line-by-line basis first.
+        const a = this.diff_linesToChars(text1, text2);
+        const width = this.diff_tokenWidth_(a.lineArray.length);
+        const lines1: string[] = [];
+        const lines2: string[] = [];
+        for (let i = 0; i < a.chars1.length; i += width)
+        {
+            lines1.push(a.chars1.substring(i, i + width));
+        }
+        for (let i = 0; i < a.chars2.length; i += width)
+        {
+            lines2.push(a.chars2.substring(i, i + width));
+        }
+        const diffs: Diff[] = [];
+        yield* this.diff_anchoredTokens_(lines1, lines2, run, diffs);
+
+        // Convert the diff back to original text.
+        this.diff_charsToLines(diffs, a.lineArray);
+
+        // Re-diff any replacement blocks, this time character-by-character.
+        yield* this.diff_rediffReplacements_(diffs, run);
+        return diffs;
+    }
+
+    /**
+     * Diff two arrays of line hashes by matching up anchor lines (chosen
+     * according to diffAlgorithm), then diffing the gaps between those anchors.
+     * Falls back to the bisection when there is nothing to anchor on.
+     *
+     * @private
+     * @param {string[]} lines1 Old array of line hashes.
+     * @param {string[]} lines2 New array of line hashes.
+     * @param {DiffRun} run Limits of the diff.
+     * @param {Diff[]} diffs Array of diff tuples to append to.
+     */
+    private *diff_anchoredTokens_(lines1: string[], lines2: string[], run: DiffRun, diffs: Diff[]): Generator<void, void>
+    {
+        // Ranges of both arrays still to be diffed, as [start1, end1, start2, end2].
+        // The last one is diffed first, so that the diffs are appended in order.
+        const ranges: Array<[number, number, number, number]> = [[0, lines1.length, 0, lines2.length]];
+        while (ranges.length)
+        {
+            let [start1, end1, start2, end2] = ranges.pop()!;
+
+            // Trim off common prefix and suffix, these lines are equalities anyway.
+            // An anchor is all prefix.
+            const prefixStart = start1;
+            while (start1 < end1 && start2 < end2 && lines1[start1] === lines2[start2])
+            {
+                start1++;
+                start2++;
+            }
+            if (start1 > prefixStart)
+            {
+                diffs.push([DiffOperation.DIFF_EQUAL, lines1.slice(prefixStart, start1).join("")]);
+            }
+            const suffixEnd1 = end1;
+            const suffixEnd2 = end2;
+            while (start1 < end1 && start2 < end2 && lines1[end1 - 1] === lines2[end2 - 1])
+            {
+                end1--;
+                end2--;
+            }
+            if (end1 < suffixEnd1)
+            {
+                ranges.push([end1, suffixEnd1, end2, suffixEnd2]);
+            }
+
+            let anchors: Array<[number, number, number]> = [];
+            if (start1 < end1 && start2 < end2)
+            {
+                if (this.diffAlgorithm === DiffAlgorithm.HISTOGRAM)
+                {
+                    const anchor = this.diff_histogramAnchor_(lines1, start1, end1, lines2, start2, end2);
+                    anchors = anchor ? [anchor] : [];
+                }
+                else
+                {
+                    anchors = this.diff_patienceAnchors_(lines1, start1, end1, lines2, start2, end2);
+                }
+            }
+            if (anchors.length === 0)
+            {
+                if (start1 < end1 || start2 < end2)
+                {
+                    // Nothing to anchor on, bisect the lines instead.
+                    const subDiff = yield* this.diff_mainSteps_(
+                        lines1.slice(start1, end1).join(""),
+                        lines2.slice(start2, end2).join(""),
+                        false,
+                        run
+                    );
+                    for (let x = 0; x < subDiff.length; x++)
+                    {
+                        diffs.push(subDiff[x]);
+                    }
+                }
+                continue;
+            }
+
+            // Queue the gaps and the anchors between them, from the end backwards.
+            let pointer1 = end1;
+            let pointer2 = end2;
+            for (let x = anchors.length - 1; x >= 0; x--)
+            {
+                const [anchor1, anchor2, anchorLength] = anchors[x];
+                ranges.push(
+                    [anchor1 + anchorLength, pointer1, anchor2 + anchorLength, pointer2],
+                    [anchor1, anchor1 + anchorLength, anchor2, anchor2 + anchorLength]
+                );
+                pointer1 = anchor1;
+                pointer2 = anchor2;
+            }
+            ranges.push([start1, pointer1, start2, pointer2]);
+        }
+    }
+
+    /**
+     * Find the longest increasing sequence of line hashes which occur exactly
+     * once in both arrays, using patience sorting.
+     *
+     * @private
+     * @param {string[]} lines1 First array of line hashes.
+     * @param {number} start1 Start of the range of lines1 to search.
+     * @param {number} end1 End of the range of lines1 to search.
+     * @param {string[]} lines2 Second array of line hashes.
+     * @param {number} start2 Start of the range of lines2 to search.
+     * @param {number} end2 End of the range of lines2 to search.
+     * @returns {Array<[number, number, number]>} The indices of the anchors in
+     * lines1 and lines2 and their lengths (always 1), in increasing order.
+     */
+    private diff_patienceAnchors_(
+        lines1: string[],
+        start1: number,
+        end1: number,
+        lines2: string[],
+        start2: number,
+        end2: number
+    ): Array<[number, number, number]>
+    {
+        // e.g. occurrences.get('\x01') == [count1, count2, index1, index2]
+        const occurrences = new Map<string, [number, number, number, number]>();
+        for (let i = start1; i < end1; i++)
+        {
+            const record = occurrences.get(lines1[i]);
+            if (record)
+            {
+                record[0]++;
+            }
+            else
+            {
+                occurrences.set(lines1[i], [1, 0, i, -1]);
+            }
+        }
+        for (let i = start2; i < end2; i++)
+        {
+            const record = occurrences.get(lines2[i]);
+            if (record)
+            {
+                record[1]++;
+                record[3] = i;
+            }
+        }
+
+        // Unique common lines, ordered by their position in lines1.
+        const candidates: Array<[number, number]> = [];
+        for (const [count1, count2, index1, index2] of occurrences.values())
+        {
+            if (count1 === 1 && count2 === 1)
+            {
+                candidates.push([index1, index2]);
+            }
+        }
+        candidates.sort((a, b) => a[0] - b[0]);
+
+        // Deal the candidates onto piles, each pile top being the smallest
+        // lines2 index which ends an increasing sequence of that length.
+        const piles: number[] = [];
+        const previous: number[] = [];
+        for (let i = 0; i < candidates.length; i++)
+        {
+            const index2 = candidates[i][1];
+            let low = 0;
+            let high = piles.length;
+            while (low < high)
+            {
+                const mid = Math.floor((low + high) / 2);
+                if (candidates[piles[mid]][1] < index2)
+                {
+                    low = mid + 1;
+                }
+                else
+                {
+                    high = mid;
+                }
+            }
+            previous[i] = low > 0 ? piles[low - 1] : -1;
+            piles[low] = i;
+        }
 
-        return diffs;
+        // Walk back from the top of the last pile.
+        const anchors: Array<[number, number, number]> = [];
+        let pointer = piles.length > 0 ? piles[piles.length - 1] : -1;
+        while (pointer !== -1)
+        {
+            anchors.push([candidates[pointer][0], candidates[pointer][1], 1]);
+            pointer = previous[pointer];
+        }
+        return anchors.reverse();
+    }
+
+    /**
+     * Find the common run of line hashes to split two arrays around, as in
+     * the histogram diff of JGit.
+     * Prefers the run whose rarest line occurs the least often in lines1, then
+     * the longest run, then the run nearest the middle of lines2.
+     * Lines occurring more than 64 times are never used.
+     *
+     * @private
+     * @param {string[]} lines1 First array of line hashes.
+     * @param {number} start1 Start of the range of lines1 to search.
+     * @param {number} end1 End of the range of lines1 to search.
+     * @param {string[]} lines2 Second array of line hashes.
+     * @param {number} start2 Start of the range of lines2 to search.
+     * @param {number} end2 End of the range of lines2 to search.
+     * @returns {([number, number, number] | null)} The indices of the run in
+     * lines1 and lines2 and its length. Or null if there is no suitable run.
+     */
+    private diff_histogramAnchor_(
+        lines1: string[],
+        start1: number,
+        end1: number,
+        lines2: string[],
+        start2: number,
+        end2: number
+    ): [number, number, number] | null
+    {
+        // e.g. positions.get('\x01') == [0, 4]
+        const positions = new Map<string, number[]>();
+        for (let i = start1; i < end1; i++)
+        {
+            const record = positions.get(lines1[i]);
+            if (record)
+            {
+                record.push(i);
+            }
+            else
+            {
+                positions.set(lines1[i], [i]);
+            }
+        }
+
+        let best: [number, number, number] | null = null;
+        let lowestCount = 64;
+        // Twice the distance of the best run from the middle of lines2.
+        let bestDistance = Infinity;
+        let j = start2;
+        while (j < end2)
+        {
+            let nextJ = j + 1;
+            const record = positions.get(lines2[j]);
+            if (record && record.length <= lowestCount)
+            {
+                for (let x = 0; x < record.length; x++)
+                {
+                    // Extend the match in both directions, keeping track of
+                    // its rarest line.
+                    let count = record.length;
+                    let runStart1 = record[x];
+                    let runStart2 = j;
+                    let runEnd1 = runStart1 + 1;
+                    let runEnd2 = runStart2 + 1;
+                    while (runStart1 > start1 && runStart2 > start2 && lines1[runStart1 - 1] === lines2[runStart2 - 1])
+                    {
+                        runStart1--;
+                        runStart2--;
+                        count = math.min(count, positions.get(lines1[runStart1])!.length);
+                    }
+                    while (runEnd1 < end1 && runEnd2 < end2 && lines1[runEnd1] === lines2[runEnd2])
+                    {
+                        count = math.min(count, positions.get(lines1[runEnd1])!.length);
+                        runEnd1++;
+                        runEnd2++;
+                    }
+                    // Of equally good runs, split around the one nearest the
+                    // middle, so that unique lines don't peel off one by one.
+                    const runLength = runEnd1 - runStart1;
+                    const distance = Math.abs(runStart2 + runEnd2 - start2 - end2);
+                    if (
+                        !best
+                        || count < lowestCount
+                        || (count === lowestCount && runLength > best[2])
+                        || (count === lowestCount && runLength === best[2] && distance < bestDistance)
+                    )
+                    {
+                        best = [runStart1, runStart2, runLength];
+                        lowestCount = count;
+                        bestDistance = distance;
+                    }
+                    // Don't bother with the lines of this run again.
+                    nextJ = math.max(nextJ, runEnd2);
+                }
+            }
+            j = nextJ;
+        }
+        return best;
     }
 
     /**
@@ -1898,6 +4618,22 @@ export class DiffMatchPatch
      */
     private diff_bisect_(text1: string, text2: string, deadline: number): Diff[]
     {
+        return this.diff_runSteps_(this.diff_bisectSteps_(text1, text2, this.diff_newRun_(deadline)));
+    }
+
+    /**
+     * Find the 'middle snake' of a diff, see diff_bisect_.
+     * Pauses every 64 steps so that the diff can be run asynchronously.
+     *
+     * @private
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @param {DiffRun} run Limits of the diff.
+     * @returns {Generator<void, Diff[]>} Array of diff tuples.
+     */
+    private *diff_bisectSteps_(text1: string, text2: string, run: DiffRun): Generator<void, Diff[]>
+    {
+        this.diff_useStrategy_(run, DiffStrategy.BISECT);
         // Cache the text lengths to prevent multiple calls.
         const text1Length = text1.length;
         const text2Length = text2.length;
@@ -1927,11 +4663,17 @@ export class DiffMatchPatch
         let k2End = 0;
         for (let d = 0; d < maxD; d++)
         {
-            // Bail out if deadline is reached.
-            if (Date.now() > deadline)
+            // Bail out if deadline is reached or the budget is spent.
+            if (run.budget <= 0 || Date.now() > run.deadline)
             {
+                run.truncated = true;
                 break;
             }
+            run.budget--;
+            if (d % 64 === 0)
+            {
+                yield;
+            }
 
             // Walk the front path one step.
             for (let k1 = -d + k1Start; k1 <= d - k1End; k1 += 2)
@@ -1978,7 +4720,7 @@ export class DiffMatchPatch
                         if (x1 >= x2)
                         {
                             // Overlap detected.
-                            return this.diff_bisectSplit_(text1, text2, x1, y1, deadline);
+                            return yield* this.diff_bisectSplit_(text1, text2, x1, y1, run);
                         }
                     }
                 }
@@ -2010,130 +4752,538 @@ export class DiffMatchPatch
                 v2[k2Offset] = x2;
                 if (x2 > text1Length)
                 {
-                    // Ran off the left of the graph.
-                    k2End += 2;
+                    // Ran off the left of the graph.
+                    k2End += 2;
+                }
+                else if (y2 > text2Length)
+                {
+                    // Ran off the top of the graph.
+                    k2Start += 2;
+                }
+                else if (!front)
+                {
+                    const k1Offset = vOffset + delta - k2;
+                    if (k1Offset >= 0 && k1Offset < vLength && v1[k1Offset] !== -1)
+                    {
+                        const x1 = v1[k1Offset];
+                        const y1 = vOffset + x1 - k1Offset;
+                        // Mirror x2 onto top-left coordinate system.
+                        x2 = text1Length - x2;
+                        if (x1 >= x2)
+                        {
+                            // Overlap detected.
+                            return yield* this.diff_bisectSplit_(text1, text2, x1, y1, run);
+                        }
+                    }
+                }
+            }
+        }
+        // Diff took too long and hit the deadline or the budget or
+        // number of diffs equals number of characters, no commonality at all.
+        return [
+            [DiffOperation.DIFF_DELETE, text1],
+            [DiffOperation.DIFF_INSERT, text2]
+        ];
+    }
+
+    /**
+     * Given the location of the 'middle snake', split the diff in two parts
+     * and recurse.
+     *
+     * @private
+     * @param {string} text1 Old string to be diffed.
+     * @param {string} text2 New string to be diffed.
+     * @param {number} x Index of split point in text1.
+     * @param {number} y Index of split point in text2.
+     * @param {DiffRun} run Limits of the diff.
+     * @returns {Generator<void, Diff[]>} Array of diff tuples.
+     */
+    private *diff_bisectSplit_(
+        text1: string,
+        text2: string,
+        x: number,
+        y: number,
+        run: DiffRun
+    ): Generator<void, Diff[]>
+    {
+        const text1A = text1.substring(0, x);
+        const text2A = text2.substring(0, y);
+        const text1B = text1.substring(x);
+        const text2B = text2.substring(y);
+
+        // Compute both diffs serially.
+        const diffsA = yield* this.diff_mainSteps_(text1A, text2A, false, run);
+        const diffsB = yield* this.diff_mainSteps_(text1B, text2B, false, run);
+
+        return diffsA.concat(diffsB);
+    }
+
+    /**
+     * Split a text into an array of strings. Reduce the texts to an array of
+     * hashes where each number represents one line.
+     * Modifies linearray and linehash through being a closure.
+     *
+     * @private
+     * @param {string} text String to encode.
+     * @param {string[]} lineArray Array of unique strings.
+     * @param {Record<string, number>} lineHash Line-hash pairs.
+     * @returns {number[]} Encoded lines.
+     */
+    private diff_linesToCharsMunge_(
+        text: string,
+        lineArray: string[],
+        lineHash: Record<string, number>
+    ): number[]
+    {
+        const lines: number[] = [];
+        // Walk the text, pulling out a substring for each line.
+        // text.split('\n') would would temporarily double our memory footprint.
+        // Modifying text would create many large strings to garbage collect.
+        let lineStart = 0;
+        let lineEnd = -1;
+        // Keeping our own length variable is faster than looking it up.
+        let lineArrayLength = lineArray.length;
+        while (lineEnd < text.length - 1)
+        {
+            lineEnd = text.indexOf("\n", lineStart);
+            if (lineEnd === -1)
+            {
+                lineEnd = text.length - 1;
+            }
+            const line = text.substring(lineStart, lineEnd + 1);
+
+            if (lineHash.hasOwnProperty
+                ? lineHash.hasOwnProperty(line)
+                : (lineHash[line] !== undefined))
+            {
+                lines.push(lineHash[line]);
+            }
+            else
+            {
+                lines.push(lineArrayLength);
+                lineHash[line] = lineArrayLength;
+                lineArray[lineArrayLength++] = line;
+            }
+            lineStart = lineEnd + 1;
+        }
+        return lines;
+    }
+
+    /**
+     * Split a text into an array of tokens. Reduce the texts to an array of
+     * hashes where each number represents one token.
+     * Modifies tokenArray and tokenHash through being a closure.
+     *
+     * @private
+     * @param {string} text String to encode.
+     * @param {DiffTokenizer} tokenizer Tokenizer to split the text with.
+     * @param {string[]} tokenArray Array of unique strings.
+     * @param {Record<string, number>} tokenHash Token-hash pairs.
+     * @returns {number[]} Encoded tokens.
+     * @throws {Error} If the tokens do not add up to the text.
+     */
+    private diff_tokensToCharsMunge_(
+        text: string,
+        tokenizer: DiffTokenizer,
+        tokenArray: string[],
+        tokenHash: Record<string, number>
+    ): number[]
+    {
+        const tokens = tokenizer.tokenize(text);
+        if (tokens.join("") !== text)
+        {
+            throw new Error("Tokens do not add up to the text. (diff_tokensToChars)");
+        }
+
+        const hashes: number[] = [];
+        for (let i = 0; i < tokens.length; i++)
+        {
+            const token = tokens[i];
+            if (!token)
+            {
+                // Empty tokens add nothing to the diff.
+                continue;
+            }
+            if (tokenHash.hasOwnProperty(token))
+            {
+                hashes.push(tokenHash[token]);
+            }
+            else
+            {
+                hashes.push(tokenArray.length);
+                tokenHash[token] = tokenArray.length;
+                tokenArray.push(token);
+            }
+        }
+        return hashes;
+    }
+
+    /**
+     * Remove the given whitespace changes, and the changes set by
+     * DiffIgnoreCase and DiffNormalization from a text.
+     *
+     * @private
+     * @param {string} text String to normalize.
+     * @param {DiffWhitespace} whitespace Whitespace changes to remove.
+     * @returns {{text: string, ends: number[]}} The normalized text, and the
+     * index in the original text just past each of its characters.
+     */
+    private diff_normalize_(text: string, whitespace: DiffWhitespace): { text: string; ends: number[] }
+    {
+        const ignoreAll = (whitespace & DiffWhitespace.IGNORE_ALL) !== 0;
+        const ignoreAmount = (whitespace & DiffWhitespace.IGNORE_AMOUNT) !== 0;
+        const ignoreBlankLines = (whitespace & DiffWhitespace.IGNORE_BLANK_LINES) !== 0;
+        const fold = this.diffIgnoreCase || this.diffNormalization;
+        const chars: string[] = [];
+        const ends: number[] = [];
+        let lineStart = 0;
+        while (lineStart < text.length)
+        {
+            let lineEnd = text.indexOf("\n", lineStart) + 1;
+            if (lineEnd === 0)
+            {
+                lineEnd = text.length;
+            }
+            if (ignoreBlankLines && !text.substring(lineStart, lineEnd).trim())
+            {
+                lineStart = lineEnd;
+                continue;
+            }
+            for (let x = lineStart; x < lineEnd; x++)
+            {
+                const char = text.charAt(x);
+                if (char !== "\n" && WHITESPACE_REGEX.test(char))
+                {
+                    if (ignoreAll)
+                    {
+                        continue;
+                    }
+                    if (ignoreAmount)
+                    {
+                        // Collapse each run of whitespace into one space, and drop
+                        // the runs at the end of lines.
+                        let runEnd = x;
+                        while (runEnd < lineEnd && text.charAt(runEnd) !== "\n" && WHITESPACE_REGEX.test(text.charAt(runEnd)))
+                        {
+                            runEnd++;
+                        }
+                        if (runEnd < lineEnd && text.charAt(runEnd) !== "\n")
+                        {
+                            chars.push(" ");
+                            ends.push(runEnd);
+                        }
+                        x = runEnd - 1;
+                        continue;
+                    }
+                }
+                if (fold)
+                {
+                    // Fold each character along with its combining marks.
+                    CHARACTER_CLUSTER_REGEX.lastIndex = x;
+                    const clusterEnd = math.min(
+                        x + (CHARACTER_CLUSTER_REGEX.exec(text) as RegExpExecArray)[0].length,
+                        lineEnd
+                    );
+                    const folded = this.diff_fold_(
+                        text.substring(x, clusterEnd),
+                        this.diffIgnoreCase,
+                        this.diffNormalization
+                    );
+                    for (let y = 0; y < folded.length; y++)
+                    {
+                        chars.push(folded.charAt(y));
+                        ends.push(clusterEnd);
+                    }
+                    x = clusterEnd - 1;
+                    continue;
+                }
+                chars.push(char);
+                ends.push(x + 1);
+            }
+            lineStart = lineEnd;
+        }
+        return { text: chars.join(""), ends };
+    }
+
+    /**
+     * Fold the case and the Unicode normalization of a text.
+     *
+     * @private
+     * @param {string} text String to fold.
+     * @param {boolean} ignoreCase Whether to fold the case.
+     * @param {(UnicodeNormalizationForm | null)} normalization Unicode
+     * normalization to apply, or null for none.
+     * @returns {string} The folded string.
+     */
+    private diff_fold_(text: string, ignoreCase: boolean, normalization: UnicodeNormalizationForm | null): string
+    {
+        if (ignoreCase)
+        {
+            // Upper case first, so that e.g. "ß" and "SS" fold alike.
+            text = text.toUpperCase().toLowerCase();
+        }
+        if (normalization)
+        {
+            text = text.normalize(normalization);
+        }
+        return text;
+    }
+
+    /**
+     * Split a text into words, using the same boundaries as
+     * diff_cleanupSemanticScore_.
+     *
+     * @private
+     * @param {string} text String to split.
+     * @returns {string[]} Array of words.
+     */
+    private diff_splitWords_(text: string): string[]
+    {
+        const words: string[] = [];
+        let wordStart = 0;
+        while (wordStart < text.length)
+        {
+            let wordEnd = wordStart + 1;
+            const char = text.charAt(wordStart);
+            if (!char.match(NON_ALPHA_NUMERIC_REGEX))
+            {
+                while (wordEnd < text.length && !text.charAt(wordEnd).match(NON_ALPHA_NUMERIC_REGEX))
+                {
+                    wordEnd++;
+                }
+            }
+            else if (char.match(WHITESPACE_REGEX))
+            {
+                while (wordEnd < text.length && text.charAt(wordEnd).match(WHITESPACE_REGEX))
+                {
+                    wordEnd++;
+                }
+            }
+            words.push(text.substring(wordStart, wordEnd));
+            wordStart = wordEnd;
+        }
+        return words;
+    }
+
+    /**
+     * Compute how many Unicode characters are needed to represent each hash,
+     * given the number of unique tokens.
+     *
+     * @private
+     * @param {number} tokenCount Number of unique tokens, including the junk entry.
+     * @returns {number} Number of characters per hash.
+     */
+    private diff_tokenWidth_(tokenCount: number): number
+    {
+        // String.fromCharCode(65536) == String.fromCharCode(0)
+        let width = 1;
+        let capacity = 65536;
+        while (capacity < tokenCount)
+        {
+            width++;
+            capacity *= 65536;
+        }
+        return width;
+    }
+
+    /**
+     * Reduce an array of hashes to a string, using a fixed number of Unicode
+     * characters for each hash (most significant first).
+     *
+     * @private
+     * @param {number[]} tokens Array of hashes.
+     * @param {number} width Number of characters per hash.
+     * @returns {string} Encoded string.
+     */
+    private diff_encodeTokens_(tokens: number[], width: number): string
+    {
+        const chars = [];
+        for (let i = 0; i < tokens.length; i++)
+        {
+            let token = tokens[i];
+            let hash = "";
+            for (let k = 0; k < width; k++)
+            {
+                hash = String.fromCharCode(token % 65536) + hash;
+                token = Math.floor(token / 65536);
+            }
+            chars[i] = hash;
+        }
+        return chars.join("");
+    }
+
+    /**
+     * Realign a diff of multi-character hashes, so that each hash is either
+     * kept, deleted or inserted as a whole.
+     * The diff knows nothing of hashes, so it may have matched half of one.
+     * e.g. \x00\x01\x00<del>\x02</del><ins>\x03</ins>
+     *   -> \x00\x01<del>\x00\x02</del><ins>\x00\x03</ins>
+     *
+     * @private
+     * @param {Diff[]} diffs Array of diff tuples, modified in place.
+     * @param {number} width Number of characters per hash.
+     */
+    private diff_alignTokens_(diffs: Diff[], width: number): void
+    {
+        const isBoundary = (index: number) => index % width === 0;
+        this.diff_alignBoundaries_(diffs, isBoundary, isBoundary);
+    }
+
+    /**
+     * Realign a diff so that each equality starts and ends on a boundary of both
+     * texts, turning the characters in between into deletions and insertions.
+     *
+     * @private
+     * @param {Diff[]} diffs Array of diff tuples, modified in place.
+     * @param {(index: number) => boolean} isBoundary1 Whether an index of text1
+     * is a boundary.
+     * @param {(index: number) => boolean} isBoundary2 Whether an index of text2
+     * is a boundary.
+     */
+    private diff_alignBoundaries_(
+        diffs: Diff[],
+        isBoundary1: (index: number) => boolean,
+        isBoundary2: (index: number) => boolean
+    ): void
+    {
+        const text1 = this.diff_text1(diffs);
+        const text2 = this.diff_text2(diffs);
+        const aligned: Diff[] = [];
+        let chars1 = 0; // Number of characters into the text1 string.
+        let chars2 = 0; // Number of characters into the text2 string.
+        let pointer1 = 0; // End of the last aligned equality in text1.
+        let pointer2 = 0; // End of the last aligned equality in text2.
+        for (let x = 0; x < diffs.length; x++)
+        {
+            const length = diffs[x][1].length;
+            if (diffs[x][0] === DiffOperation.DIFF_EQUAL)
+            {
+                // Keep the part of the equality between the outermost common boundaries.
+                let start = 0;
+                while (start < length && !(isBoundary1(chars1 + start) && isBoundary2(chars2 + start)))
+                {
+                    start++;
                 }
-                else if (y2 > text2Length)
+                let end = length;
+                while (end > start && !(isBoundary1(chars1 + end) && isBoundary2(chars2 + end)))
                 {
-                    // Ran off the top of the graph.
-                    k2Start += 2;
+                    end--;
                 }
-                else if (!front)
+                if (start < end)
                 {
-                    const k1Offset = vOffset + delta - k2;
-                    if (k1Offset >= 0 && k1Offset < vLength && v1[k1Offset] !== -1)
+                    if (pointer1 < chars1 + start)
                     {
-                        const x1 = v1[k1Offset];
-                        const y1 = vOffset + x1 - k1Offset;
-                        // Mirror x2 onto top-left coordinate system.
-                        x2 = text1Length - x2;
-                        if (x1 >= x2)
-                        {
-                            // Overlap detected.
-                            return this.diff_bisectSplit_(text1, text2, x1, y1, deadline);
-                        }
+                        aligned.push([DiffOperation.DIFF_DELETE, text1.substring(pointer1, chars1 + start)]);
+                    }
+                    if (pointer2 < chars2 + start)
+                    {
+                        aligned.push([DiffOperation.DIFF_INSERT, text2.substring(pointer2, chars2 + start)]);
+                    }
+                    if (aligned.length && aligned[aligned.length - 1][0] === DiffOperation.DIFF_EQUAL)
+                    {
+                        aligned[aligned.length - 1][1] += text1.substring(chars1 + start, chars1 + end);
+                    }
+                    else
+                    {
+                        aligned.push([DiffOperation.DIFF_EQUAL, text1.substring(chars1 + start, chars1 + end)]);
                     }
+                    pointer1 = chars1 + end;
+                    pointer2 = chars2 + end;
                 }
             }
+            if (diffs[x][0] !== DiffOperation.DIFF_INSERT)
+            {
+                chars1 += length;
+            }
+            if (diffs[x][0] !== DiffOperation.DIFF_DELETE)
+            {
+                chars2 += length;
+            }
+        }
+        if (pointer1 < text1.length)
+        {
+            aligned.push([DiffOperation.DIFF_DELETE, text1.substring(pointer1)]);
+        }
+        if (pointer2 < text2.length)
+        {
+            aligned.push([DiffOperation.DIFF_INSERT, text2.substring(pointer2)]);
+        }
+
+        diffs.length = 0;
+        for (let x = 0; x < aligned.length; x++)
+        {
+            diffs.push(aligned[x]);
         }
-        // Diff took too long and hit the deadline or
-        // number of diffs equals number of characters, no commonality at all.
-        return [
-            [DiffOperation.DIFF_DELETE, text1],
-            [DiffOperation.DIFF_INSERT, text2]
-        ];
     }
 
     /**
-     * Given the location of the 'middle snake', split the diff in two parts
-     * and recurse.
+     * Find the boundaries between the units of a text, see DiffUnit.
      *
      * @private
-     * @param {string} text1 Old string to be diffed.
-     * @param {string} text2 New string to be diffed.
-     * @param {number} x Index of split point in text1.
-     * @param {number} y Index of split point in text2.
-     * @param {number} deadline Time at which to bail if not yet complete.
-     * @returns {Diff[]} Array of diff tuples.
+     * @param {string} text String to split into units.
+     * @returns {(index: number) => boolean} Whether an index of the text is a
+     * boundary.
      */
-    private diff_bisectSplit_(
-        text1: string,
-        text2: string,
-        x: number,
-        y: number,
-        deadline: number
-    ): Diff[]
+    private diff_unitBoundaries_(text: string): (index: number) => boolean
     {
-        const text1A = text1.substring(0, x);
-        const text2A = text2.substring(0, y);
-        const text1B = text1.substring(x);
-        const text2B = text2.substring(y);
-
-        // Compute both diffs serially.
-        const diffsA = this.diff_main(text1A, text2A, false, deadline);
-        const diffsB = this.diff_main(text1B, text2B, false, deadline);
-
-        return diffsA.concat(diffsB);
+        switch (this.diffUnit)
+        {
+            case DiffUnit.CODE_POINT:
+                // Anywhere but between a high and a low surrogate.
+                return (index) =>
+                {
+                    const high = text.charCodeAt(index - 1);
+                    const low = text.charCodeAt(index);
+                    return !(high >= 0xD800 && high <= 0xDBFF && low >= 0xDC00 && low <= 0xDFFF);
+                };
+            case DiffUnit.GRAPHEME:
+            {
+                const boundaries = new Set<number>([text.length]);
+                const segments = new Intl.Segmenter(undefined, { granularity: "grapheme" }).segment(text);
+                for (const segment of segments)
+                {
+                    boundaries.add(segment.index);
+                }
+                return (index) => boundaries.has(index);
+            }
+            default:
+                return () => true;
+        }
     }
 
     /**
-     * Split a text into an array of strings. Reduce the texts to a string of
-     * hashes where each Unicode character represents one line.
-     * Modifies linearray and linehash through being a closure.
+     * Move an index of a text back to the nearest boundary between units.
      *
      * @private
-     * @param {string} text String to encode.
-     * @param {string[]} lineArray Array of unique strings.
-     * @param {Record<string, number>} lineHash Line-hash pairs.
-     * @param {number} maxLines
-     * @returns {string} Encoded string.
+     * @param {(index: number) => boolean} isBoundary Boundaries of the text.
+     * @param {number} index Index within the text.
+     * @returns {number} The nearest boundary at or before the index.
      */
-    private diff_linesToCharsMunge_(
-        text: string,
-        lineArray: string[],
-        lineHash: Record<string, number>,
-        maxLines: number
-    ): string
+    private diff_unitFloor_(isBoundary: (index: number) => boolean, index: number): number
     {
-        let chars = "";
-        // Walk the text, pulling out a substring for each line.
-        // text.split('\n') would would temporarily double our memory footprint.
-        // Modifying text would create many large strings to garbage collect.
-        let lineStart = 0;
-        let lineEnd = -1;
-        // Keeping our own length variable is faster than looking it up.
-        let lineArrayLength = lineArray.length;
-        while (lineEnd < text.length - 1)
+        while (index > 0 && !isBoundary(index))
         {
-            lineEnd = text.indexOf("\n", lineStart);
-            if (lineEnd === -1)
-            {
-                lineEnd = text.length - 1;
-            }
-            let line = text.substring(lineStart, lineEnd + 1);
+            index--;
+        }
+        return index;
+    }
 
-            if (lineHash.hasOwnProperty
-                ? lineHash.hasOwnProperty(line)
-                : (lineHash[line] !== undefined))
-            {
-                chars += String.fromCharCode(lineHash[line]);
-            }
-            else
-            {
-                if (lineArrayLength === maxLines)
-                {
-                    // Bail out at 65535 because
-                    // String.fromCharCode(65536) == String.fromCharCode(0)
-                    line = text.substring(lineStart);
-                    lineEnd = text.length;
-                }
-                chars += String.fromCharCode(lineArrayLength);
-                lineHash[line] = lineArrayLength;
-                lineArray[lineArrayLength++] = line;
-            }
-            lineStart = lineEnd + 1;
+    /**
+     * Move an index of a text forward to the nearest boundary between units.
+     *
+     * @private
+     * @param {(index: number) => boolean} isBoundary Boundaries of the text.
+     * @param {number} index Index within the text.
+     * @param {number} length Length of the text.
+     * @returns {number} The nearest boundary at or after the index.
+     */
+    private diff_unitCeil_(isBoundary: (index: number) => boolean, index: number, length: number): number
+    {
+        while (index < length && !isBoundary(index))
+        {
+            index++;
         }
-        return chars;
+        return index;
     }
 
     /**
@@ -2393,6 +5543,123 @@ export class DiffMatchPatch
     //#endregion DIFF FUNCTIONS (private)
 
     //#region MATCH FUNCTIONS (private)
+    /**
+     * Compute the Levenshtein distance of two texts within a band of diagonals
+     * of the matrix of distances, see match_levenshtein.
+     *
+     * @private
+     * @param {string} text1 First string.
+     * @param {string} text2 Second string.
+     * @param {number} band Number of diagonals on either side of the main one.
+     * @param {number} deadline Time when the distance should be complete by.
+     * @returns {number} The distance, band + 1 if it exceeds the band, or -1 if
+     * the time ran out.
+     */
+    private match_levenshteinWithin_(text1: string, text2: string, band: number, deadline: number): number
+    {
+        // Two rows of the matrix are enough, the cells outside the band are
+        // infinite.
+        let previous = new Array<number>(text2.length + 1);
+        let current = new Array<number>(text2.length + 1);
+        for (let y = 0; y <= text2.length; y++)
+        {
+            previous[y] = y <= band ? y : Infinity;
+        }
+        for (let x = 1; x <= text1.length; x++)
+        {
+            if (Date.now() > deadline)
+            {
+                return -1;
+            }
+            const start = math.max(1, x - band);
+            const end = math.min(text2.length, x + band);
+            current[start - 1] = start === 1 ? x : Infinity;
+            let rowMin = current[start - 1];
+            for (let y = start; y <= end; y++)
+            {
+                const cost = text1.charAt(x - 1) === text2.charAt(y - 1) ? 0 : 1;
+                current[y] = math.min(math.min(previous[y] + 1, current[y - 1] + 1), previous[y - 1] + cost);
+                rowMin = math.min(rowMin, current[y]);
+            }
+            if (end < text2.length)
+            {
+                current[end + 1] = Infinity;
+            }
+            if (rowMin > band)
+            {
+                // No path through this row stays within the band.
+                return band + 1;
+            }
+            [previous, current] = [current, previous];
+        }
+        return math.min(previous[text2.length], band + 1);
+    }
+
+    /**
+     * Locate the best instance of 'pattern' in 'text' near 'loc', see match_main.
+     *
+     * @private
+     * @param {string} text The text to search.
+     * @param {string} pattern The pattern to search for.
+     * @param {number} loc The location to search around.
+     * @returns {number} Best match index or -1.
+     */
+    private match_locate_(text: string, pattern: string, loc: number): number
+    {
+        loc = math.max(0, math.min(loc, text.length));
+        if (text === pattern)
+        {
+            // Shortcut (potentially not guaranteed by the algorithm)
+            return 0;
+        }
+        else if (!text.length)
+        {
+            // Nothing to match.
+            return -1;
+        }
+        else if (text.substring(loc, loc + pattern.length) === pattern)
+        {
+            // Perfect match at the perfect spot!  (Includes case of null pattern)
+            return loc;
+        }
+        else
+        {
+            // Do a fuzzy compare.
+            return this.match_bitap_(text, pattern, loc);
+        }
+    }
+
+    /**
+     * Fold the case and the Unicode normalization of a text, as set by
+     * MatchIgnoreCase and MatchNormalization.
+     *
+     * @private
+     * @param {string} text String to fold.
+     * @returns {{text: string, starts: number[]}} The folded text, and the index
+     * in the original text of each of its characters, plus the length of the
+     * original text.
+     */
+    private match_fold_(text: string): { text: string; starts: number[] }
+    {
+        const chars: string[] = [];
+        const starts: number[] = [];
+        let x = 0;
+        while (x < text.length)
+        {
+            CHARACTER_CLUSTER_REGEX.lastIndex = x;
+            const cluster = (CHARACTER_CLUSTER_REGEX.exec(text) as RegExpExecArray)[0];
+            const folded = this.diff_fold_(cluster, this.matchIgnoreCase, this.matchNormalization);
+            for (let y = 0; y < folded.length; y++)
+            {
+                chars.push(folded.charAt(y));
+                starts.push(x);
+            }
+            x += cluster.length;
+        }
+        starts.push(text.length);
+        return { text: chars.join(""), starts };
+    }
+
     /**
      * Locate the best instance of 'pattern' in 'text' near 'loc' using the
      * Bitap algorithm.
@@ -2594,7 +5861,11 @@ export class DiffMatchPatch
         padding += this.patchMargin;
 
         // Add the prefix.
-        const prefix = text.substring(patch.start2 - padding, patch.start2);
+        const isBoundary = this.diff_unitBoundaries_(text);
+        const prefix = text.substring(
+            this.diff_unitFloor_(isBoundary, math.max(0, patch.start2 - padding)),
+            patch.start2
+        );
         if (prefix)
         {
             patch.diffs.unshift([DiffOperation.DIFF_EQUAL, prefix]);
@@ -2602,7 +5873,7 @@ export class DiffMatchPatch
         // Add the suffix.
         const suffix = text.substring(
             patch.start2 + patch.length1,
-            patch.start2 + patch.length1 + padding
+            this.diff_unitCeil_(isBoundary, patch.start2 + patch.length1 + padding, text.length)
         );
         if (suffix)
         {
@@ -2616,5 +5887,130 @@ export class DiffMatchPatch
         patch.length1 += prefix.length + suffix.length;
         patch.length2 += prefix.length + suffix.length;
     }
+
+    /**
+     * Parse one range of a hunk header, e.g. "382,8" of "@@ -382,8 +481,9 @@".
+     * Indices are printed as 1-based, not 0-based.
+     *
+     * @private
+     * @param {string} start The start of the range.
+     * @param {string} length The length of the range, or an empty string for 1.
+     * @returns {[number, number]} The 0-based start and the length.
+     */
+    private patch_parseRange_(start: string, length: string): [number, number]
+    {
+        if (length === "")
+        {
+            return [parseInt(start, 10) - 1, 1];
+        }
+        else if (length === "0")
+        {
+            // An empty range starts at the line before it.
+            return [parseInt(start, 10), 0];
+        }
+        return [parseInt(start, 10) - 1, parseInt(length, 10)];
+    }
     //#endregion PATCH FUNCTIONS (private)
+
+    //#region MERGE FUNCTIONS (private)
+    /**
+     * Split a text into lines, keeping the newline at the end of each line.
+     *
+     * @private
+     * @param {string} text Text to split.
+     * @returns {string[]} Array of lines, which add up to the text.
+     */
+    private merge_splitLines_(text: string): string[]
+    {
+        return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+    }
+
+    /**
+     * Determine whether a line is the given conflict marker, with or without a label.
+     *
+     * @private
+     * @param {string} line Line to check.
+     * @param {string} sign The marker, e.g. "<<<<<<<".
+     * @returns {boolean} True if the line is the marker.
+     */
+    private merge_isMarker_(line: string, sign: string): boolean
+    {
+        if (!line.startsWith(sign))
+        {
+            return false;
+        }
+        const rest = line.substring(sign.length);
+        return rest === "" || rest === "\n" || rest === "\r\n" || rest[0] === " ";
+    }
+
+    /**
+     * Find where each line of the base is kept in an edit of the base.
+     *
+     * @private
+     * @param {string[]} baseLines Lines of the base.
+     * @param {string[]} lines Lines of the edit.
+     * @returns {number[]} Index of the matching line in the edit for each line
+     * of the base, or -1 if the line was deleted.
+     */
+    private merge_matchLines_(baseLines: string[], lines: string[]): number[]
+    {
+        const matches: number[] = [];
+        let pointer = 0;
+        const diffs = this.diffSequences(baseLines, lines);
+        for (let x = 0; x < diffs.length; x++)
+        {
+            const count = diffs[x][1].length;
+            switch (diffs[x][0])
+            {
+                case DiffOperation.DIFF_INSERT:
+                    pointer += count;
+                    break;
+                case DiffOperation.DIFF_DELETE:
+                    for (let y = 0; y < count; y++)
+                    {
+                        matches.push(-1);
+                    }
+                    break;
+                case DiffOperation.DIFF_EQUAL:
+                    for (let y = 0; y < count; y++)
+                    {
+                        matches.push(pointer++);
+                    }
+                    break;
+            }
+        }
+        return matches;
+    }
+
+    /**
+     * Work out how a hunk which isn't kept by both sides was changed.
+     *
+     * @private
+     * @param {string} base Text of the hunk in the base.
+     * @param {string} ours Text of the hunk on our side.
+     * @param {string} theirs Text of the hunk on their side.
+     * @returns {MergeHunk} The classified hunk.
+     */
+    private merge_classifyHunk_(base: string, ours: string, theirs: string): MergeHunk
+    {
+        let type: MergeHunkType;
+        if (ours === theirs)
+        {
+            type = ours === base ? MergeHunkType.UNCHANGED : MergeHunkType.BOTH_SAME;
+        }
+        else if (ours === base)
+        {
+            type = MergeHunkType.THEIRS;
+        }
+        else if (theirs === base)
+        {
+            type = MergeHunkType.OURS;
+        }
+        else
+        {
+            type = MergeHunkType.CONFLICT;
+        }
+        return { type, base, ours, theirs };
+    }
+    //#endregion MERGE FUNCTIONS (private)
 }
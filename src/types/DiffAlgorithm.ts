@@ -0,0 +1,15 @@
+/**
+ * Represents the algorithms used to diff the changed middle block of two texts.
+ *
+ * `MYERS` bisects the texts character by character (the default).
+ * `PATIENCE` anchors the texts on lines which are unique to both of them, and
+ * recurses between those anchors.
+ * `HISTOGRAM` splits the texts around the longest common run of lines which
+ * occur the least often, so it still finds anchors when no line is unique.
+ */
+export enum DiffAlgorithm
+{
+    MYERS = 0,
+    PATIENCE = 1,
+    HISTOGRAM = 2
+}
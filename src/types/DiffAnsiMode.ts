@@ -0,0 +1,13 @@
+/**
+ * Represents the layouts of an ANSI rendering of a diff.
+ *
+ * `INLINE` writes the text once, with the deletions and insertions in place
+ * (the default).
+ * `LINES` writes each changed line twice, prefixed with `-` and `+` as in a
+ * unified diff, and highlights the changes within the lines.
+ */
+export enum DiffAnsiMode
+{
+    INLINE = 0,
+    LINES = 1
+}
@@ -0,0 +1,24 @@
+import type { DiffAnsiMode } from "./DiffAnsiMode";
+
+/**
+ * Represents the options of an ANSI rendering of a diff, see diff_ansi.
+ */
+export interface DiffAnsiOptions
+{
+    /**
+     * Layout of the rendering.
+     */
+    mode?: DiffAnsiMode;
+
+    /**
+     * Whether to write the escape codes of colours, e.g. false if the output is
+     * not a terminal.
+     */
+    color?: boolean;
+
+    /**
+     * Whether to mark the changes as `[-deleted-]` and `{+inserted+}`, as in
+     * `git diff --word-diff`, which keeps them readable without colours.
+     */
+    markers?: boolean;
+}
@@ -0,0 +1,87 @@
+import type { DiffOperation } from "./DiffOperation";
+
+/**
+ * Represents the options of an HTML rendering of a diff, see diff_html.
+ */
+export interface DiffHtmlOptions
+{
+    /**
+     * Tag of the elements of insertions.
+     */
+    insertTag?: string;
+
+    /**
+     * Tag of the elements of deletions.
+     */
+    deleteTag?: string;
+
+    /**
+     * Tag of the elements of equalities.
+     */
+    equalTag?: string;
+
+    /**
+     * Class of the elements of insertions, or an empty string for none.
+     */
+    insertClass?: string;
+
+    /**
+     * Class of the elements of deletions, or an empty string for none.
+     */
+    deleteClass?: string;
+
+    /**
+     * Class of the elements of equalities, or an empty string for none.
+     */
+    equalClass?: string;
+
+    /**
+     * Class of the table of diff_sideBySideHtml, or an empty string for none.
+     */
+    tableClass?: string;
+
+    /**
+     * Class of the cells of the line numbers of diff_sideBySideHtml, or an empty
+     * string for none.
+     */
+    lineNumberClass?: string;
+
+    /**
+     * Class of the cells of the inserted lines of diff_sideBySideHtml, or an
+     * empty string for none.
+     */
+    lineInsertClass?: string;
+
+    /**
+     * Class of the cells of the deleted lines of diff_sideBySideHtml, or an empty
+     * string for none.
+     */
+    lineDeleteClass?: string;
+
+    /**
+     * Class of the cells of the unchanged lines of diff_sideBySideHtml, or an
+     * empty string for none.
+     */
+    lineEqualClass?: string;
+
+    /**
+     * HTML written for each newline, e.g. "&para;<br>" or "\n".
+     */
+    newline?: string;
+
+    /**
+     * HTML written for each space, e.g. "&middot;" to make them visible.
+     */
+    space?: string;
+
+    /**
+     * HTML written for each tab, e.g. "&rarr;" to make them visible.
+     */
+    tab?: string;
+
+    /**
+     * Returns more attributes of the element of a diff tuple, e.g. `data-op`.
+     * The values are escaped.
+     */
+    attributes?: (op: DiffOperation, text: string) => Record<string, string>;
+}
@@ -0,0 +1,16 @@
+import type { Diff } from "./Diff";
+
+/**
+ * Represents a diff array as a JSON document, see diff_toJSON.
+ *
+ * `version` is the version of the schema, currently 1.
+ * `diffs` is the array of diff tuples as they are, each in the form of
+ * `[op, text]`, where `op` is -1 (delete), 1 (insert) or 0 (equal).
+ *
+ * e.g. `{ "version": 1, "diffs": [[0, "jump"], [-1, "s"], [1, "ed"]] }`
+ */
+export interface DiffJson
+{
+    version: number;
+    diffs: Diff[];
+}
@@ -0,0 +1,24 @@
+import type { Diff } from "./Diff";
+
+/**
+ * Represents a block of text which was moved, i.e. a deletion and an insertion
+ * elsewhere of the same or nearly the same text.
+ */
+export interface DiffMove
+{
+    /**
+     * Index of the deletion in the array of diff tuples.
+     */
+    deleteIndex: number;
+
+    /**
+     * Index of the insertion in the array of diff tuples.
+     */
+    insertIndex: number;
+
+    /**
+     * Array of diff tuples from the deleted text to the inserted text, which
+     * holds a single equality if the text was moved unchanged.
+     */
+    diffs: Diff[];
+}
@@ -0,0 +1,22 @@
+/**
+ * Represents one diff tuple as a plain object, for UI frameworks to map to
+ * their own components, see diff_toNodes.
+ */
+export interface DiffNode
+{
+    /**
+     * Whether the text is inserted, deleted or retained.
+     */
+    type: "ins" | "del" | "eq";
+
+    /**
+     * Text of the node, without line breaks.
+     */
+    text: string;
+
+    /**
+     * Number of line breaks after the text, which is 1 for the last node of a
+     * line that ends with a newline, and 0 otherwise.
+     */
+    lineBreaks: number;
+}
@@ -0,0 +1,29 @@
+import type { Diff } from "./Diff";
+import type { DiffStrategy } from "./DiffStrategy";
+
+/**
+ * Represents the result of a diff, along with how it was computed.
+ */
+export interface DiffResult
+{
+    /**
+     * Array of diff tuples.
+     */
+    diffs: Diff[];
+
+    /**
+     * Whether the diff ran out of time or budget, in which case it's correct
+     * but may not be minimal.
+     */
+    truncated: boolean;
+
+    /**
+     * Number of milliseconds the diff took.
+     */
+    elapsed: number;
+
+    /**
+     * Strategies used to compute the diff, in the order they were first used.
+     */
+    strategies: DiffStrategy[];
+}
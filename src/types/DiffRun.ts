@@ -0,0 +1,32 @@
+import type { DiffStrategy } from "./DiffStrategy";
+
+/**
+ * Represents the limits and progress of a single diff, shared by all of its steps.
+ * Internal to DiffMatchPatch, so it isn't exported from the types.
+ *
+ * @internal
+ */
+export interface DiffRun
+{
+    /**
+     * Time when the diff should be complete by.
+     */
+    deadline: number;
+
+    /**
+     * Number of bisect iterations left before the diff bails out.
+     */
+    budget: number;
+
+    /**
+     * Whether the diff bailed out of a bisection, reported as
+     * DiffResult.truncated.
+     */
+    truncated: boolean;
+
+    /**
+     * Strategies used so far, in the order they were first used, reported as
+     * DiffResult.strategies.
+     */
+    strategies: DiffStrategy[];
+}
@@ -0,0 +1,78 @@
+import type { LineRange } from "./LineRange";
+
+/**
+ * Represents the statistics of a diff, see diffStats.
+ *
+ * A line is changed if any of its characters is, or if a change falls within
+ * it. A word is changed in the same way, or if a change joins it to another
+ * word or splits it, in either text. The changed ones of the old text are
+ * counted as deleted, and the changed ones of the new text as inserted.
+ */
+export interface DiffStats
+{
+    /**
+     * Number of inserted characters.
+     */
+    insertedChars: number;
+
+    /**
+     * Number of deleted characters.
+     */
+    deletedChars: number;
+
+    /**
+     * Number of unchanged characters.
+     */
+    unchangedChars: number;
+
+    /**
+     * Number of changed words of the new text.
+     */
+    insertedWords: number;
+
+    /**
+     * Number of changed words of the old text.
+     */
+    deletedWords: number;
+
+    /**
+     * Number of unchanged words, the same in both texts.
+     */
+    unchangedWords: number;
+
+    /**
+     * Number of changed lines of the new text.
+     */
+    insertedLines: number;
+
+    /**
+     * Number of changed lines of the old text.
+     */
+    deletedLines: number;
+
+    /**
+     * Number of unchanged lines.
+     */
+    unchangedLines: number;
+
+    /**
+     * Number of runs of changed lines.
+     */
+    hunks: number;
+
+    /**
+     * Similarity of the texts from 0 to 1, i.e. twice the unchanged characters
+     * over the characters of both texts, like `ratio()` of Python's difflib.
+     */
+    ratio: number;
+
+    /**
+     * Changed lines of the old text, one range for each hunk.
+     */
+    changedLines1: LineRange[];
+
+    /**
+     * Changed lines of the new text, one range for each hunk.
+     */
+    changedLines2: LineRange[];
+}
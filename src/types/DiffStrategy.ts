@@ -0,0 +1,15 @@
+/**
+ * Represents the strategies used to diff the changed middle block of two texts.
+ *
+ * `HALF_MATCH` splits the texts around a long common substring.
+ * `LINE_MODE` diffs the texts line by line first, then re-diffs the changed lines.
+ * `TOKEN_MODE` diffs the texts token by token, see DiffTokenizer.
+ * `BISECT` bisects the texts character by character.
+ */
+export enum DiffStrategy
+{
+    HALF_MATCH = 0,
+    LINE_MODE = 1,
+    TOKEN_MODE = 2,
+    BISECT = 3
+}
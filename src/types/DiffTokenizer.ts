@@ -0,0 +1,10 @@
+/**
+ * Represents a tokenizer which splits a text into the units to be diffed,
+ * e.g. sentences or the tokens of a lexer.
+ *
+ * `tokenize` must return tokens which add up to the original text.
+ */
+export interface DiffTokenizer
+{
+    tokenize(text: string): string[];
+}
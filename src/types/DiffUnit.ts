@@ -0,0 +1,16 @@
+/**
+ * Represents the smallest units of text which a diff may split.
+ *
+ * `CODE_UNIT` may split any UTF-16 code unit from the next (the default), even
+ * the two halves of a surrogate pair, e.g. an emoji.
+ * `CODE_POINT` never splits a surrogate pair, so the diff can always be encoded
+ * with diff_toDelta and patch_toText.
+ * `GRAPHEME` never splits an extended grapheme cluster, e.g. a letter and its
+ * accents, or an emoji and its modifiers.
+ */
+export enum DiffUnit
+{
+    CODE_UNIT = 0,
+    CODE_POINT = 1,
+    GRAPHEME = 2
+}
@@ -0,0 +1,17 @@
+/**
+ * Represents the whitespace changes to be ignored when diffing two texts, like
+ * the options of `git diff`. Combine them with `|`.
+ *
+ * `NONE` ignores nothing (the default).
+ * `IGNORE_ALL` ignores all whitespace within lines, like `-w`.
+ * `IGNORE_AMOUNT` ignores changes in the amount of whitespace, and whitespace
+ * at the end of lines, like `-b`.
+ * `IGNORE_BLANK_LINES` ignores lines which are blank, like `--ignore-blank-lines`.
+ */
+export enum DiffWhitespace
+{
+    NONE = 0,
+    IGNORE_ALL = 1,
+    IGNORE_AMOUNT = 2,
+    IGNORE_BLANK_LINES = 4
+}
@@ -0,0 +1,16 @@
+/**
+ * Represents a range of lines in a text.
+ */
+export interface LineRange
+{
+    /**
+     * Index of the first line of the range, 0-based.
+     * For an empty range, the index of the line before which it lies.
+     */
+    start: number;
+
+    /**
+     * Number of lines in the range.
+     */
+    length: number;
+}
@@ -0,0 +1,29 @@
+import type { MergeHunkType } from "./MergeHunkType";
+
+/**
+ * Represents one hunk of a three-way merge, i.e. the lines of the base and the
+ * lines of each side which replace them.
+ */
+export interface MergeHunk
+{
+    /**
+     * How the hunk was changed.
+     */
+    type: MergeHunkType;
+
+    /**
+     * Text of the hunk in the base, or null for a conflict which was read
+     * without a base, see merge_fromText.
+     */
+    base: string | null;
+
+    /**
+     * Text of the hunk on our side.
+     */
+    ours: string;
+
+    /**
+     * Text of the hunk on their side.
+     */
+    theirs: string;
+}
@@ -0,0 +1,17 @@
+/**
+ * Represents how a hunk of a three-way merge was changed.
+ *
+ * `UNCHANGED` neither side changed the base.
+ * `OURS` only our side changed the base.
+ * `THEIRS` only their side changed the base.
+ * `BOTH_SAME` both sides changed the base in the same way.
+ * `CONFLICT` both sides changed the base in different ways.
+ */
+export enum MergeHunkType
+{
+    UNCHANGED = 0,
+    OURS = 1,
+    THEIRS = 2,
+    BOTH_SAME = 3,
+    CONFLICT = 4
+}
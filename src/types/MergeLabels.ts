@@ -0,0 +1,21 @@
+/**
+ * Represents the labels written after the conflict markers of a three-way merge,
+ * e.g. the names of the branches being merged.
+ */
+export interface MergeLabels
+{
+    /**
+     * Label of our side, after `<<<<<<<`.
+     */
+    ours?: string;
+
+    /**
+     * Label of the base, after `|||||||`.
+     */
+    base?: string;
+
+    /**
+     * Label of their side, after `>>>>>>>`.
+     */
+    theirs?: string;
+}
@@ -0,0 +1,24 @@
+import type { Diff } from "./Diff";
+
+/**
+ * Represents a list of patches as a JSON document, see patch_toJSON.
+ *
+ * `version` is the version of the schema, currently 1.
+ * `patches` is the array of patches, each of which has the fields of a
+ * PatchObject: the 0-based `start1` and `start2` in the old and new text, the
+ * `length1` and `length2` of the text the patch spans in each, and its `diffs`
+ * in the same form as DiffJson.
+ *
+ * e.g. `{ "version": 1, "patches": [{ "diffs": [[0, "ab"], [1, "c"]], "start1": 0, "start2": 0, "length1": 2, "length2": 3 }] }`
+ */
+export interface PatchJson
+{
+    version: number;
+    patches: Array<{
+        diffs: Diff[];
+        start1: number;
+        start2: number;
+        length1: number;
+        length2: number;
+    }>;
+}
@@ -0,0 +1,9 @@
+import { DiffOperation } from "./DiffOperation";
+
+/**
+ * Represents one diff tuple of two sequences, in the form of `[op, items]`.
+ *
+ * `op` is the operation, one of: DIFF_DELETE, DIFF_INSERT, DIFF_EQUAL.
+ * `items` is the run of items to be deleted, inserted, or retained.
+ */
+export type SequenceDiff<T> = [DiffOperation, T[]];
@@ -0,0 +1,20 @@
+/**
+ * Represents one candidate ranked by rankBySimilarity.
+ */
+export interface SimilarityMatch
+{
+    /**
+     * The candidate.
+     */
+    candidate: string;
+
+    /**
+     * Index of the candidate in the array of candidates.
+     */
+    index: number;
+
+    /**
+     * Similarity of the candidate to the query from 0 to 1, see match_ratio.
+     */
+    score: number;
+}
@@ -0,0 +1,15 @@
+/**
+ * Represents the options of rankBySimilarity.
+ */
+export interface SimilarityOptions
+{
+    /**
+     * Maximum number of candidates to return.
+     */
+    limit?: number;
+
+    /**
+     * Minimum score of the candidates to return, from 0 to 1.
+     */
+    cutoff?: number;
+}
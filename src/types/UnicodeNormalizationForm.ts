@@ -0,0 +1,4 @@
+/**
+ * Represents the forms of Unicode normalization, see `String.prototype.normalize`.
+ */
+export type UnicodeNormalizationForm = "NFC" | "NFD" | "NFKC" | "NFKD";
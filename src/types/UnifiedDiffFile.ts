@@ -0,0 +1,22 @@
+import type { UnifiedDiffHunk } from "./UnifiedDiffHunk";
+
+/**
+ * Represents the changes of one file in a unified diff.
+ */
+export interface UnifiedDiffFile
+{
+    /**
+     * Name of the old file, after `---`, e.g. "a/README.md" or "/dev/null".
+     */
+    fromFile: string;
+
+    /**
+     * Name of the new file, after `+++`, e.g. "b/README.md" or "/dev/null".
+     */
+    toFile: string;
+
+    /**
+     * Hunks of the file, in order.
+     */
+    hunks: UnifiedDiffHunk[];
+}
@@ -0,0 +1,37 @@
+import type { Diff } from "./Diff";
+
+/**
+ * Represents one hunk of a unified diff, i.e. a `@@ -l,s +l,s @@` header and
+ * the lines below it.
+ *
+ * Unlike PatchObject, the hunk is addressed by lines rather than characters.
+ */
+export interface UnifiedDiffHunk
+{
+    /**
+     * Index of the first line of the hunk in the old file, 0-based.
+     * For a hunk without old lines, the index of the line before which it inserts.
+     */
+    start1: number;
+
+    /**
+     * Number of lines of the hunk in the old file.
+     */
+    length1: number;
+
+    /**
+     * Index of the first line of the hunk in the new file, 0-based.
+     * For a hunk without new lines, the index of the line before which it deletes.
+     */
+    start2: number;
+
+    /**
+     * Number of lines of the hunk in the new file.
+     */
+    length2: number;
+
+    /**
+     * Diff of the hunk, where each tuple holds one or more whole lines.
+     */
+    diffs: Diff[];
+}
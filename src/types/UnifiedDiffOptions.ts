@@ -0,0 +1,20 @@
+/**
+ * Represents the options of a unified diff, see toUnifiedDiff.
+ */
+export interface UnifiedDiffOptions
+{
+    /**
+     * Number of unchanged lines to show around each change.
+     */
+    context?: number;
+
+    /**
+     * Name of the old file, after `---`.
+     */
+    fromFile?: string;
+
+    /**
+     * Name of the new file, after `+++`.
+     */
+    toFile?: string;
+}
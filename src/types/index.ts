@@ -1,4 +1,29 @@
 export * from "./Diff";
+export * from "./DiffAlgorithm";
+export * from "./DiffAnsiMode";
+export * from "./DiffAnsiOptions";
+export * from "./DiffHtmlOptions";
+export * from "./DiffJson";
+export * from "./DiffMove";
+export * from "./DiffNode";
 export * from "./DiffOperation";
+export * from "./DiffResult";
+export * from "./DiffStats";
+export * from "./DiffStrategy";
+export * from "./DiffTokenizer";
+export * from "./DiffUnit";
+export * from "./DiffWhitespace";
 export * from "./HalfMatchArray";
+export * from "./LineRange";
+export * from "./MergeHunk";
+export * from "./MergeHunkType";
+export * from "./MergeLabels";
 export * from "./PatchApplyArray";
+export * from "./PatchJson";
+export * from "./SequenceDiff";
+export * from "./SimilarityMatch";
+export * from "./SimilarityOptions";
+export * from "./UnicodeNormalizationForm";
+export * from "./UnifiedDiffFile";
+export * from "./UnifiedDiffHunk";
+export * from "./UnifiedDiffOptions";
@@ -18,8 +18,8 @@
  * Ported by [xiaochao.k@gmail.com](https://github.com/nonoroazoro)
  */
 
-import { DiffMatchPatch } from "../../src/core";
-import { Diff, DiffOperation } from "../../src/types";
+import { DiffMatchPatch, PatchObject } from "../../src/core";
+import { Diff, DiffAlgorithm, DiffAnsiMode, DiffOperation, DiffStrategy, DiffUnit, DiffWhitespace, MergeHunkType } from "../../src/types";
 
 let dmp: DiffMatchPatch;
 describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
@@ -162,6 +162,17 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
             { chars1: chars, chars2: "", lineArray: lineList },
             dmp.diff_linesToChars(lines, "")
         );
+
+        // More than 65535 unique lines, two characters per line.
+        const bigLineList = [];
+        for (let i = 0; i < 70000; i++)
+        {
+            bigLineList[i] = i + "\n";
+        }
+        const results = dmp.diff_linesToChars(bigLineList.join(""), "0\n65535\n65536\n");
+        expect(results.lineArray.length).toBe(70001);
+        expect(results.chars1.length).toBe(140000);
+        expect(results.chars2).toBe("\x00\x01\x01\x00\x01\x01");
     });
 
     it("DIFF - Chars To Lines", () =>
@@ -206,6 +217,130 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
         diffs = [[DiffOperation.DIFF_INSERT, results.chars1]];
         dmp.diff_charsToLines(diffs, results.lineArray);
         expect(diffs[0][1]).toEqual(chars);
+
+        // More than 65536 takes two characters per line, which must not be split.
+        lineList = [""];
+        for (let i = 1; i < 70000; i++)
+        {
+            lineList[i] = i + "\n";
+        }
+        diffs = [
+            [DiffOperation.DIFF_EQUAL, "\x00\x01\x00"],
+            [DiffOperation.DIFF_DELETE, "\x02"],
+            [DiffOperation.DIFF_INSERT, "\x03"],
+            [DiffOperation.DIFF_EQUAL, "\x01\x00\x00\x04"]
+        ];
+        dmp.diff_charsToLines(diffs, lineList);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "1\n"],
+            [DiffOperation.DIFF_DELETE, "2\n"],
+            [DiffOperation.DIFF_INSERT, "3\n"],
+            [DiffOperation.DIFF_EQUAL, "65536\n4\n"]
+        ]);
+    });
+
+    it("DIFF - Words To Chars", () =>
+    {
+        // Convert words down to characters.
+        expect(dmp.diff_wordsToChars("The cat sat.", "The  dog sat.")).toStrictEqual({
+            chars1: "\x01\x02\x03\x02\x04\x05",
+            chars2: "\x01\x06\x07\x02\x04\x05",
+            wordArray: ["", "The", " ", "cat", "sat", ".", "  ", "dog"]
+        });
+
+        // Punctuation is one word per character.
+        expect(dmp.diff_wordsToChars("a--b", "")).toStrictEqual({
+            chars1: "\x01\x02\x02\x03",
+            chars2: "",
+            wordArray: ["", "a", "-", "b"]
+        });
+    });
+
+    it("DIFF - Word Mode", () =>
+    {
+        // Convert chars up to words.
+        const diffs: Diff[] = [[DiffOperation.DIFF_EQUAL, "\x01\x02"], [DiffOperation.DIFF_INSERT, "\x03"]];
+        dmp.diff_charsToWords(diffs, ["", "Hello", " ", "world"]);
+        expect(diffs).toStrictEqual([[DiffOperation.DIFF_EQUAL, "Hello "], [DiffOperation.DIFF_INSERT, "world"]]);
+
+        // Whole words are replaced.
+        expect(dmp.diff_wordMode("The cats sat.", "The cat sat down.")).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "The "],
+            [DiffOperation.DIFF_DELETE, "cats"],
+            [DiffOperation.DIFF_INSERT, "cat"],
+            [DiffOperation.DIFF_EQUAL, " sat"],
+            [DiffOperation.DIFF_INSERT, " down"],
+            [DiffOperation.DIFF_EQUAL, "."]
+        ]);
+    });
+
+    it("DIFF - Tokens To Chars", () =>
+    {
+        const sentences = { tokenize: (text: string) => text.match(/[^.?!]+[.?!]*\s*/g) ?? [] };
+
+        // Convert tokens down to characters.
+        expect(dmp.diff_tokensToChars("Hi. Bye.", "Hi. Hi.", sentences)).toStrictEqual({
+            chars1: "\x01\x02",
+            chars2: "\x01\x03",
+            tokenArray: ["", "Hi. ", "Bye.", "Hi."]
+        });
+
+        // Convert chars up to tokens.
+        const diffs: Diff[] = [[DiffOperation.DIFF_EQUAL, "\x01"], [DiffOperation.DIFF_DELETE, "\x02"]];
+        dmp.diff_charsToTokens(diffs, ["", "Hi. ", "Bye."]);
+        expect(diffs).toStrictEqual([[DiffOperation.DIFF_EQUAL, "Hi. "], [DiffOperation.DIFF_DELETE, "Bye."]]);
+
+        // Diff sentence-by-sentence.
+        expect(dmp.diff_main("Hi there. How are you? Fine.", "Hi there. How old are you? Fine.", sentences))
+            .toStrictEqual([
+                [DiffOperation.DIFF_EQUAL, "Hi there. "],
+                [DiffOperation.DIFF_DELETE, "How are you? "],
+                [DiffOperation.DIFF_INSERT, "How old are you? "],
+                [DiffOperation.DIFF_EQUAL, "Fine."]
+            ]);
+
+        // Tokens which don't add up to the text.
+        expect(() => dmp.diff_main("a b", "a c", { tokenize: (text: string) => text.split(" ") }))
+            .toThrow("Tokens do not add up to the text. (diff_tokensToChars)");
+    });
+
+    it("DIFF - Sequences", () =>
+    {
+        // Null case.
+        expect(dmp.diffSequences([], [])).toStrictEqual([]);
+
+        // Numbers.
+        expect(dmp.diffSequences([1, 2, 3, 4], [1, 3, 4, 5])).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, [1]],
+            [DiffOperation.DIFF_DELETE, [2]],
+            [DiffOperation.DIFF_EQUAL, [3, 4]],
+            [DiffOperation.DIFF_INSERT, [5]]
+        ]);
+
+        // Records with a custom equality.
+        const a = [{ id: 1, name: "a" }, { id: 2, name: "b" }];
+        const b = [{ id: 2, name: "B" }, { id: 3, name: "c" }];
+        expect(dmp.diffSequences(a, b, (x, y) => x.id === y.id)).toStrictEqual([
+            [DiffOperation.DIFF_DELETE, [{ id: 1, name: "a" }]],
+            [DiffOperation.DIFF_EQUAL, [{ id: 2, name: "b" }]],
+            [DiffOperation.DIFF_INSERT, [{ id: 3, name: "c" }]]
+        ]);
+
+        // More than 65535 unique items.
+        const c: number[] = [];
+        for (let i = 0; i < 70000; i++)
+        {
+            c[i] = i;
+        }
+        const d = c.slice(1);
+        d[30000] = -1;
+        expect(dmp.diffSequences(c, d).map((diff) => [diff[0], diff[1].length])).toStrictEqual([
+            [DiffOperation.DIFF_DELETE, 1],
+            [DiffOperation.DIFF_EQUAL, 30000],
+            [DiffOperation.DIFF_DELETE, 1],
+            [DiffOperation.DIFF_INSERT, 1],
+            [DiffOperation.DIFF_EQUAL, 39998]
+        ]);
     });
 
     it("DIFF - Cleanup Merge", () =>
@@ -485,6 +620,191 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
         expect('<span>a&para;<br></span><del style="background:#ffe6e6;">&lt;B&gt;b&lt;/B&gt;</del><ins style="background:#e6ffe6;">c&amp;d</ins>').toStrictEqual(dmp.diff_prettyHtml(diffs));
     });
 
+    it("DIFF - Html", () =>
+    {
+        const diffs: Diff[] = [[DiffOperation.DIFF_EQUAL, "a\n"], [DiffOperation.DIFF_DELETE, "<B>b</B>"], [DiffOperation.DIFF_INSERT, "c&d"]];
+
+        // Default classes.
+        expect(dmp.diff_html(diffs)).toEqual(
+            '<span class="diff-equal">a&para;<br></span><del class="diff-delete">&lt;B&gt;b&lt;/B&gt;</del><ins class="diff-insert">c&amp;d</ins>'
+        );
+
+        // Tags, classes and whitespace.
+        expect(dmp.diff_html([[DiffOperation.DIFF_EQUAL, "a \tb\n"], [DiffOperation.DIFF_INSERT, "c d"]], {
+            insertTag: "mark",
+            equalClass: "",
+            newline: "\n",
+            space: "&middot;",
+            tab: "&rarr;"
+        })).toEqual('<span>a&middot;&rarr;b\n</span><mark class="diff-insert">c&middot;d</mark>');
+
+        // Attributes.
+        expect(dmp.diff_html(diffs, {
+            equalTag: "span",
+            equalClass: "eq",
+            attributes: (op, text) => ({ "data-op": String(op), "title": text })
+        })).toEqual(
+            '<span class="eq" data-op="0" title="a\n">a&para;<br></span>'
+            + '<del class="diff-delete" data-op="-1" title="&lt;B&gt;b&lt;/B&gt;">&lt;B&gt;b&lt;/B&gt;</del>'
+            + '<ins class="diff-insert" data-op="1" title="c&amp;d">c&amp;d</ins>'
+        );
+        expect(dmp.diff_html([[DiffOperation.DIFF_EQUAL, "x"]], { attributes: () => ({ title: '"' }) })).toEqual(
+            '<span class="diff-equal" title="&quot;">x</span>'
+        );
+
+        // Invalid attribute name.
+        try
+        {
+            dmp.diff_html([[DiffOperation.DIFF_EQUAL, "x"]], { attributes: () => ({ 'x" onclick="alert(1)': "" }) });
+            fail("Should generates error of invalid attribute name");
+        }
+        catch (e: any)
+        {
+            // Exception expected.
+            expect(e.message).toEqual('Invalid attribute name: x" onclick="alert(1)');
+        }
+
+        // Undefined options keep their defaults.
+        expect(dmp.diff_html(diffs, { insertTag: undefined, deleteClass: undefined })).toEqual(dmp.diff_html(diffs));
+    });
+
+    it("DIFF - Side By Side Html", () =>
+    {
+        // Null case.
+        expect(dmp.diff_sideBySideHtml("", "")).toEqual('<table class="diff-side-by-side"></table>');
+
+        // Paired, deleted and inserted lines.
+        const num = '<td class="diff-line-number">';
+        const eq = '<td class="diff-line-equal">';
+        const del = '<td class="diff-line-delete">';
+        const ins = '<td class="diff-line-insert">';
+        expect(dmp.diff_sideBySideHtml("a\nb<c\nd\ne\n", "a\nb<C\nx\ny\ne\n")).toEqual(
+            '<table class="diff-side-by-side">'
+            + "<tr>" + num + "1</td>" + eq + "a</td>" + num + "1</td>" + eq + "a</td></tr>"
+            + "<tr>" + num + "2</td>" + del + 'b&lt;<del class="diff-delete">c</del></td>'
+            + num + "2</td>" + ins + 'b&lt;<ins class="diff-insert">C</ins></td></tr>'
+            + "<tr>" + num + "3</td>" + del + '<del class="diff-delete">d</del></td>'
+            + num + "3</td>" + ins + '<ins class="diff-insert">x</ins></td></tr>'
+            + "<tr><td></td><td></td>" + num + "4</td>" + ins + "y</td></tr>"
+            + "<tr>" + num + "4</td>" + eq + "e</td>" + num + "5</td>" + eq + "e</td></tr>"
+            + "</table>"
+        );
+        expect(dmp.diff_sideBySideHtml("a\nb", "a\n")).toEqual(
+            '<table class="diff-side-by-side">'
+            + "<tr>" + num + "1</td>" + eq + "a</td>" + num + "1</td>" + eq + "a</td></tr>"
+            + "<tr>" + num + "2</td>" + del + "b</td><td></td><td></td></tr>"
+            + "</table>"
+        );
+
+        // Table and line number classes.
+        expect(dmp.diff_sideBySideHtml("a\n", "a\n", { tableClass: "diff", lineNumberClass: "" })).toEqual(
+            '<table class="diff"><tr><td>1</td>' + eq + "a</td><td>1</td>" + eq + "a</td></tr></table>"
+        );
+
+        // Line classes, apart from the classes of the changed characters.
+        expect(dmp.diff_sideBySideHtml("a b\n", "a c\n", { lineDeleteClass: "old", lineInsertClass: "" })).toEqual(
+            '<table class="diff-side-by-side">'
+            + "<tr>" + num + '1</td><td class="old">a <del class="diff-delete">b</del></td>'
+            + num + '1</td><td>a <ins class="diff-insert">c</ins></td></tr>'
+            + "</table>"
+        );
+
+        // Tags, classes and whitespace of diff_html.
+        expect(dmp.diff_sideBySideHtml("a b\n", "a c\n", { insertTag: "mark", deleteClass: "", space: "&middot;" })).toEqual(
+            '<table class="diff-side-by-side">'
+            + "<tr>" + num + "1</td>" + del + "a&middot;<del>b</del></td>"
+            + num + "1</td>" + ins + 'a&middot;<mark class="diff-insert">c</mark></td></tr>'
+            + "</table>"
+        );
+    });
+
+    it("DIFF - Ansi", () =>
+    {
+        const diffs: Diff[] = [
+            [DiffOperation.DIFF_EQUAL, "one\nt"],
+            [DiffOperation.DIFF_DELETE, "w"],
+            [DiffOperation.DIFF_INSERT, "o"],
+            [DiffOperation.DIFF_EQUAL, "o lines\nthree\nf"],
+            [DiffOperation.DIFF_DELETE, "our"],
+            [DiffOperation.DIFF_INSERT, "ive\nsix"],
+            [DiffOperation.DIFF_EQUAL, "\n"]
+        ];
+
+        // Inline.
+        expect(dmp.diff_ansi(diffs)).toEqual(
+            "one\nt\x1b[31mw\x1b[39m\x1b[32mo\x1b[39mo lines\nthree\nf\x1b[31mour\x1b[39m\x1b[32mive\x1b[39m\n\x1b[32msix\x1b[39m\n"
+        );
+        expect(dmp.diff_ansi(diffs, { color: false, markers: true })).toEqual("one\nt[-w-]{+o+}o lines\nthree\nf[-our-]{+ive\nsix+}\n");
+
+        // Lines.
+        expect(dmp.diff_ansi(diffs, { mode: DiffAnsiMode.LINES })).toEqual(
+            " one\n"
+            + "\x1b[31m-t\x1b[7mw\x1b[27mo lines\x1b[39m\n"
+            + "\x1b[32m+t\x1b[7mo\x1b[27mo lines\x1b[39m\n"
+            + " three\n"
+            + "\x1b[31m-f\x1b[7mour\x1b[27m\x1b[39m\n"
+            + "\x1b[32m+f\x1b[7mive\x1b[27m\x1b[39m\n"
+            + "\x1b[32m+six\x1b[39m\n"
+        );
+        expect(dmp.diff_ansi(diffs, { mode: DiffAnsiMode.LINES, color: false, markers: true })).toEqual(
+            " one\n-t[-w-]o lines\n+t{+o+}o lines\n three\n-f[-our-]\n+f{+ive+}\n+six\n"
+        );
+
+        // A line which is only partly unchanged.
+        expect(dmp.diff_ansi([[DiffOperation.DIFF_DELETE, "a"], [DiffOperation.DIFF_EQUAL, "b\nc"]], { mode: DiffAnsiMode.LINES, color: false })).toEqual(
+            "-ab\n+b\n c\n"
+        );
+    });
+
+    it("DIFF - To Nodes", () =>
+    {
+        // Null case.
+        expect(dmp.diff_toNodes([])).toStrictEqual([]);
+
+        const diffs: Diff[] = [
+            [DiffOperation.DIFF_EQUAL, "a\nb"],
+            [DiffOperation.DIFF_DELETE, "c\n"],
+            [DiffOperation.DIFF_INSERT, "d"],
+            [DiffOperation.DIFF_EQUAL, "\n\ne"]
+        ];
+        expect(dmp.diff_toNodes(diffs)).toStrictEqual([
+            [{ type: "eq", text: "a", lineBreaks: 1 }],
+            [{ type: "eq", text: "b", lineBreaks: 0 }, { type: "del", text: "c", lineBreaks: 1 }],
+            [{ type: "ins", text: "d", lineBreaks: 0 }, { type: "eq", text: "", lineBreaks: 1 }],
+            [{ type: "eq", text: "", lineBreaks: 1 }],
+            [{ type: "eq", text: "e", lineBreaks: 0 }]
+        ]);
+    });
+
+    it("DIFF - Markdown", () =>
+    {
+        // Prose.
+        const diffs: Diff[] = [
+            [DiffOperation.DIFF_EQUAL, "The "],
+            [DiffOperation.DIFF_DELETE, "quick"],
+            [DiffOperation.DIFF_INSERT, "slow"],
+            [DiffOperation.DIFF_EQUAL, " brown fox.\n\n"],
+            [DiffOperation.DIFF_DELETE, "Jumps over *the* dog.\n\nEnd"],
+            [DiffOperation.DIFF_INSERT, "End\n\nNew para "]
+        ];
+        expect(dmp.diff_markdown(diffs)).toEqual(
+            "The ~~quick~~**slow** brown fox.\n\n~~Jumps over \\*the\\* dog.~~\n\n~~End~~**End**\n\n**New para** "
+        );
+
+        // Lines.
+        expect(dmp.diff_markdownBlock([[DiffOperation.DIFF_EQUAL, "a\n"], [DiffOperation.DIFF_DELETE, "b\n"], [DiffOperation.DIFF_INSERT, "c\n"]])).toEqual(
+            "```diff\n a\n-b\n+c\n```\n"
+        );
+        expect(dmp.diff_markdownBlock([[DiffOperation.DIFF_EQUAL, "```\n"], [DiffOperation.DIFF_INSERT, "c\n"]])).toEqual(
+            "````diff\n ```\n+c\n````\n"
+        );
+
+        // Summary.
+        expect(dmp.diff_summary([[DiffOperation.DIFF_EQUAL, "a"]])).toEqual("No changes");
+        expect(dmp.diff_summary([[DiffOperation.DIFF_INSERT, "a"]])).toEqual("1 paragraph changed, 1 char inserted, 0 chars deleted");
+        expect(dmp.diff_summary(diffs)).toEqual("3 paragraphs changed, 18 chars inserted, 31 chars deleted");
+    });
+
     it("DIFF - Text", () =>
     {
         // Compute the source and destination texts.
@@ -595,6 +915,30 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
         expect(dmp.diff_fromDelta("", delta)).toStrictEqual(diffs);
     });
 
+    it("DIFF - JSON", () =>
+    {
+        const diffs: Diff[] = [[DiffOperation.DIFF_EQUAL, "jump"], [DiffOperation.DIFF_DELETE, "s"], [DiffOperation.DIFF_INSERT, "ed"]];
+        const json = dmp.diff_toJSON(diffs);
+        expect(json).toStrictEqual({ version: 1, diffs });
+        expect(JSON.stringify(json)).toEqual('{"version":1,"diffs":[[0,"jump"],[-1,"s"],[1,"ed"]]}');
+
+        // Round trip, from the object or the text.
+        expect(dmp.diff_fromJSON(json)).toStrictEqual(diffs);
+        expect(dmp.diff_fromJSON(JSON.stringify(json))).toStrictEqual(diffs);
+        expect(dmp.diff_fromJSON({ version: 1, diffs: [] })).toStrictEqual([]);
+
+        // Malformed documents.
+        expect(() => dmp.diff_fromJSON("{")).toThrow("Invalid JSON in diff_fromJSON");
+        expect(() => dmp.diff_fromJSON(null)).toThrow("Invalid JSON in diff_fromJSON: the document must be an object");
+        expect(() => dmp.diff_fromJSON({ version: 2, diffs: [] })).toThrow("Unsupported version in diff_fromJSON: 2");
+        expect(() => dmp.diff_fromJSON({ version: 1 })).toThrow("Invalid JSON in diff_fromJSON: diffs must be an array");
+        expect(() => dmp.diff_fromJSON({ version: 1, diffs: [[0, "a"], [0]] })).toThrow(
+            "Invalid JSON in diff_fromJSON: diffs[1] must be a tuple of [op, text]"
+        );
+        expect(() => dmp.diff_fromJSON({ version: 1, diffs: [[2, "a"]] })).toThrow("Invalid JSON in diff_fromJSON: diffs[0][0] must be -1, 0 or 1");
+        expect(() => dmp.diff_fromJSON({ version: 1, diffs: [[0, 1]] })).toThrow("Invalid JSON in diff_fromJSON: diffs[0][1] must be a string");
+    });
+
     it("DIFF - XIndex", () =>
     {
         // Translate a location in text1 to text2.
@@ -618,6 +962,112 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
         expect(dmp.diff_levenshtein([[DiffOperation.DIFF_DELETE, "abc"], [DiffOperation.DIFF_EQUAL, "xyz"], [DiffOperation.DIFF_INSERT, "1234"]])).toBe(7);
     });
 
+    it("DIFF - Stats", () =>
+    {
+        // Null case.
+        expect(dmp.diffStats([])).toStrictEqual({
+            insertedChars: 0,
+            deletedChars: 0,
+            unchangedChars: 0,
+            insertedWords: 0,
+            deletedWords: 0,
+            unchangedWords: 0,
+            insertedLines: 0,
+            deletedLines: 0,
+            unchangedLines: 0,
+            hunks: 0,
+            ratio: 1,
+            changedLines1: [],
+            changedLines2: []
+        });
+
+        const diffs: Diff[] = [
+            [DiffOperation.DIFF_EQUAL, "one\nThe "],
+            [DiffOperation.DIFF_DELETE, "quick"],
+            [DiffOperation.DIFF_INSERT, "slow"],
+            [DiffOperation.DIFF_EQUAL, " fox\nthree\nfour\n"],
+            [DiffOperation.DIFF_INSERT, "five six\n"]
+        ];
+        expect(dmp.diffStats(diffs)).toStrictEqual({
+            insertedChars: 13,
+            deletedChars: 5,
+            unchangedChars: 24,
+            insertedWords: 3,
+            deletedWords: 1,
+            unchangedWords: 5,
+            insertedLines: 2,
+            deletedLines: 1,
+            unchangedLines: 3,
+            hunks: 2,
+            ratio: 48 / 66,
+            changedLines1: [{ start: 1, length: 1 }, { start: 4, length: 0 }],
+            changedLines2: [{ start: 1, length: 1 }, { start: 4, length: 1 }]
+        });
+
+        // Words changed in either text count on both sides.
+        const words = (wordDiffs: Diff[]) =>
+        {
+            const stats = dmp.diffStats(wordDiffs);
+            return [stats.deletedWords, stats.unchangedWords, stats.insertedWords];
+        };
+        // A word split in two.
+        expect(words([[DiffOperation.DIFF_EQUAL, "a"], [DiffOperation.DIFF_INSERT, " "], [DiffOperation.DIFF_EQUAL, "b"]])).toStrictEqual([1, 0, 2]);
+        // Two words joined.
+        expect(words([[DiffOperation.DIFF_EQUAL, "a"], [DiffOperation.DIFF_DELETE, " "], [DiffOperation.DIFF_EQUAL, "b"]])).toStrictEqual([2, 0, 1]);
+        // An insertion inside a word.
+        expect(words([[DiffOperation.DIFF_EQUAL, "ab"], [DiffOperation.DIFF_INSERT, "x"], [DiffOperation.DIFF_EQUAL, "c d"]])).toStrictEqual([1, 1, 1]);
+        // An insertion between words.
+        expect(words([[DiffOperation.DIFF_EQUAL, "a "], [DiffOperation.DIFF_INSERT, "x "], [DiffOperation.DIFF_EQUAL, "b"]])).toStrictEqual([0, 2, 1]);
+        // An insertion at the end of a word.
+        expect(words([[DiffOperation.DIFF_EQUAL, "a"], [DiffOperation.DIFF_INSERT, "x"], [DiffOperation.DIFF_EQUAL, " b"]])).toStrictEqual([1, 1, 1]);
+    });
+
+    it("DIFF - Detect Moves", () =>
+    {
+        // Null case.
+        expect(dmp.diff_detectMoves([])).toStrictEqual([]);
+
+        // Unchanged move.
+        let diffs: Diff[] = [[DiffOperation.DIFF_DELETE, "Hello world. "], [DiffOperation.DIFF_EQUAL, "This is a test. "], [DiffOperation.DIFF_INSERT, "Hello world. "]];
+        expect(dmp.diff_detectMoves(diffs)).toStrictEqual([{ deleteIndex: 0, insertIndex: 2, diffs: [[DiffOperation.DIFF_EQUAL, "Hello world. "]] }]);
+
+        // Nearly unchanged move, to the closest insertion.
+        diffs = [[DiffOperation.DIFF_INSERT, "Hello there! "], [DiffOperation.DIFF_EQUAL, "xyz"], [DiffOperation.DIFF_DELETE, "Hello world. "], [DiffOperation.DIFF_EQUAL, "xyz"], [DiffOperation.DIFF_INSERT, "Hello world! "]];
+        expect(dmp.diff_detectMoves(diffs)).toStrictEqual([{
+            deleteIndex: 2,
+            insertIndex: 4,
+            diffs: [[DiffOperation.DIFF_EQUAL, "Hello world"], [DiffOperation.DIFF_DELETE, "."], [DiffOperation.DIFF_INSERT, "!"], [DiffOperation.DIFF_EQUAL, " "]]
+        }]);
+
+        // Replacements, short and different texts aren't moves.
+        diffs = [[DiffOperation.DIFF_DELETE, "Hello world. "], [DiffOperation.DIFF_INSERT, "Hello world. "], [DiffOperation.DIFF_EQUAL, "xyz"], [DiffOperation.DIFF_DELETE, "abc"], [DiffOperation.DIFF_EQUAL, "xyz"], [DiffOperation.DIFF_INSERT, "abc"]];
+        expect(dmp.diff_detectMoves(diffs)).toStrictEqual([]);
+        diffs = [[DiffOperation.DIFF_DELETE, "Hello world. "], [DiffOperation.DIFF_EQUAL, "xyz"], [DiffOperation.DIFF_INSERT, "Goodbye world. "]];
+        expect(dmp.diff_detectMoves(diffs)).toStrictEqual([]);
+
+        // Each insertion is moved at most once.
+        diffs = [[DiffOperation.DIFF_DELETE, "Hello world. "], [DiffOperation.DIFF_EQUAL, "xyz"], [DiffOperation.DIFF_DELETE, "Hello world. "], [DiffOperation.DIFF_EQUAL, "xyz"], [DiffOperation.DIFF_INSERT, "Hello world. "]];
+        expect(dmp.diff_detectMoves(diffs).map((move) => [move.deleteIndex, move.insertIndex])).toStrictEqual([[0, 4]]);
+
+        // One timeout for the whole pass, over many large paragraphs.
+        let seed = 1;
+        const paragraph = () => Array.from({ length: 3000 }, () => "abcdefghij klmnop"[(seed = seed * 16807 % 2147483647) % 17]).join("");
+        diffs = [];
+        for (let x = 0; x < 20; x++)
+        {
+            diffs.push([DiffOperation.DIFF_DELETE, paragraph()], [DiffOperation.DIFF_EQUAL, "xyz"]);
+        }
+        for (let x = 0; x < 20; x++)
+        {
+            diffs.push([DiffOperation.DIFF_INSERT, paragraph()], [DiffOperation.DIFF_EQUAL, "xyz"]);
+        }
+        dmp.diffTimeout = 0.1;
+        const startTime = Date.now();
+        expect(dmp.diff_detectMoves(diffs)).toStrictEqual([]);
+        expect(Date.now() - startTime).toBeLessThan(2000);
+        dmp.diffTimeout = 1;
+    });
+
     it("DIFF - Bisect", () =>
     {
         // Normal.
@@ -636,6 +1086,120 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
 
         // Timeout.
         expect(dmp["diff_bisect_"](a, b, 0)).toStrictEqual([[DiffOperation.DIFF_DELETE, "cat"], [DiffOperation.DIFF_INSERT, "map"]]);
+
+        // Budget.
+        dmp.diffBudget = 1;
+        expect(dmp["diff_bisect_"](a, b, Number.MAX_VALUE)).toStrictEqual([[DiffOperation.DIFF_DELETE, "cat"], [DiffOperation.DIFF_INSERT, "map"]]);
+        dmp.diffBudget = 0;
+    });
+
+    it("DIFF - Patience", () =>
+    {
+        // Find the anchors.
+        // Lines which are unique to both texts, in increasing order.
+        expect(dmp["diff_patienceAnchors_"](Array.from("abcdXbce"), 0, 8, Array.from("bXcdae"), 0, 6)).toStrictEqual([[4, 1, 1], [7, 5, 1]]);
+
+        // No unique common lines.
+        expect(dmp["diff_patienceAnchors_"](Array.from("aab"), 0, 3, Array.from("bba"), 0, 3)).toStrictEqual([]);
+
+        // Anchor on the unique lines, not on the repeated braces.
+        dmp.diffTimeout = 0;
+        dmp.diffAlgorithm = DiffAlgorithm.PATIENCE;
+        const a = "#include <stdio.h>\n\n// Frobs foo heartily\nint frobnitz(int foo)\n{\n    int i;\n"
+            + "    for(i = 0; i < 10; i++)\n    {\n        printf(\"Your answer is: \");\n"
+            + "        printf(\"%d\\n\", foo);\n    }\n}\n\nint fact(int n)\n{\n    if(n > 1)\n    {\n"
+            + "        return fact(n-1) * n;\n    }\n    return 1;\n}\n\n"
+            + "int main(int argc, char **argv)\n{\n    frobnitz(fact(10));\n}\n";
+        const b = "#include <stdio.h>\n\nint fib(int n)\n{\n    if(n > 2)\n    {\n"
+            + "        return fib(n-1) + fib(n-2);\n    }\n    return 1;\n}\n\n"
+            + "// Frobs foo heartily\nint frobnitz(int foo)\n{\n    int i;\n    for(i = 0; i < 10; i++)\n    {\n"
+            + "        printf(\"%d\\n\", foo);\n    }\n}\n\n"
+            + "int main(int argc, char **argv)\n{\n    frobnitz(fib(10));\n}\n";
+        expect(dmp.diff_main(a, b)).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "#include <stdio.h>\n\n"],
+            [DiffOperation.DIFF_INSERT, "int fib(int n)\n{\n    if(n > 2)\n    {\n        return fib(n-1) + fib(n-2);\n    }\n    return 1;\n}\n\n"],
+            [DiffOperation.DIFF_EQUAL, "// Frobs foo heartily\nint frobnitz(int foo)\n{\n    int i;\n    for(i = 0; i < 10; i++)\n    {\n"],
+            [DiffOperation.DIFF_DELETE, "        printf(\"Your answer is: \");\n"],
+            [DiffOperation.DIFF_EQUAL, "        printf(\"%d\\n\", foo);\n    }\n}\n\n"],
+            [DiffOperation.DIFF_DELETE, "int fact(int n)\n{\n    if(n > 1)\n    {\n        return fact(n-1) * n;\n    }\n    return 1;\n}\n\n"],
+            [DiffOperation.DIFF_EQUAL, "int main(int argc, char **argv)\n{\n    frobnitz(f"],
+            [DiffOperation.DIFF_DELETE, "act"],
+            [DiffOperation.DIFF_INSERT, "ib"],
+            [DiffOperation.DIFF_EQUAL, "(10));\n}\n"]
+        ]);
+
+        // Short texts are diffed character by character, as with Myers.
+        expect(dmp.diff_main("abc\ndef\n", "abX\ndef\n")).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "ab"],
+            [DiffOperation.DIFF_DELETE, "c"],
+            [DiffOperation.DIFF_INSERT, "X"],
+            [DiffOperation.DIFF_EQUAL, "\ndef\n"]
+        ]);
+        expect(dmp.diff_mainWithMetadata("abc\ndef\n", "aXY\ndef\n").strategies).toStrictEqual([DiffStrategy.BISECT]);
+
+        // Without the line-level speedup, fall back to the bisection.
+        expect(dmp.diff_main("abc", "ab123c", false)).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "ab"],
+            [DiffOperation.DIFF_INSERT, "123"],
+            [DiffOperation.DIFF_EQUAL, "c"]
+        ]);
+        dmp.diffAlgorithm = DiffAlgorithm.MYERS;
+        dmp.diffTimeout = 1;
+    });
+
+    it("DIFF - Histogram", () =>
+    {
+        // Find the split point.
+        // Prefer the rarest lines.
+        expect(dmp["diff_histogramAnchor_"](Array.from("ababx"), 0, 5, Array.from("xabab"), 0, 5)).toStrictEqual([4, 0, 1]);
+
+        // Then the longest run.
+        expect(dmp["diff_histogramAnchor_"](Array.from("abcxde"), 0, 6, Array.from("deabc"), 0, 5)).toStrictEqual([0, 2, 3]);
+
+        // No unique lines, then the run nearest the middle.
+        expect(dmp["diff_histogramAnchor_"](Array.from("aab"), 0, 3, Array.from("bba"), 0, 3)).toStrictEqual([2, 1, 1]);
+
+        // Within a range.
+        expect(dmp["diff_histogramAnchor_"](Array.from("xabcx"), 1, 4, Array.from("yabcy"), 1, 4)).toStrictEqual([1, 1, 3]);
+
+        // No common lines.
+        expect(dmp["diff_histogramAnchor_"](Array.from("abc"), 0, 3, Array.from("xyz"), 0, 3)).toBeNull();
+
+        // Split around the repeated lines which occur the least often.
+        dmp.diffTimeout = 0;
+        dmp.diffAlgorithm = DiffAlgorithm.HISTOGRAM;
+        expect(dmp.diff_main("x\ny\nx\ny\nz\n", "z\nx\ny\nw\nx\ny\n")).toStrictEqual([
+            [DiffOperation.DIFF_INSERT, "z\n"],
+            [DiffOperation.DIFF_EQUAL, "x\ny\n"],
+            [DiffOperation.DIFF_INSERT, "w\n"],
+            [DiffOperation.DIFF_EQUAL, "x\ny\n"],
+            [DiffOperation.DIFF_DELETE, "z\n"]
+        ]);
+
+        // Large interleaved texts, where every other line is an anchor.
+        let text1 = "";
+        let text2 = "";
+        for (let i = 0; i < 5000; i++)
+        {
+            text1 += "a" + i + "\nb" + i + "\n";
+            text2 += "a" + i + "\nc" + i + "\n";
+        }
+        for (const algorithm of [DiffAlgorithm.HISTOGRAM, DiffAlgorithm.PATIENCE])
+        {
+            dmp.diffAlgorithm = algorithm;
+            const diffs = dmp.diff_main(text1, text2);
+            expect(diffs.length).toEqual(15001);
+            expect(diffs.slice(0, 4)).toStrictEqual([
+                [DiffOperation.DIFF_EQUAL, "a0\n"],
+                [DiffOperation.DIFF_DELETE, "b"],
+                [DiffOperation.DIFF_INSERT, "c"],
+                [DiffOperation.DIFF_EQUAL, "0\na1\n"]
+            ]);
+            expect(dmp.diff_text1(diffs)).toEqual(text1);
+            expect(dmp.diff_text2(diffs)).toEqual(text2);
+        }
+        dmp.diffAlgorithm = DiffAlgorithm.MYERS;
+        dmp.diffTimeout = 1;
     });
 
     it("DIFF - Main", () =>
@@ -755,6 +1319,18 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
         expect(dmp.diffTimeout * 1000 * 2 > endTime - startTime).toBe(true);
         dmp.diffTimeout = 0;
 
+        // Budget.
+        // Same diff regardless of the speed of the machine.
+        dmp.diffTimeout = 0.001;
+        dmp.diffBudget = 1000;
+        const budgetDiffs = dmp.diff_main(a, b);
+        dmp.diffTimeout = 1;
+        expect(dmp.diff_main(a, b)).toStrictEqual(budgetDiffs);
+        expect(dmp.diff_text1(budgetDiffs)).toEqual(a);
+        expect(dmp.diff_text2(budgetDiffs)).toEqual(b);
+        dmp.diffBudget = 0;
+        dmp.diffTimeout = 0;
+
         // Test the linemode speedup.
         // Must be long to pass the 100 char cutoff.
         // Simple line-mode.
@@ -805,6 +1381,273 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
             expect(e.message).toEqual("Null input. (diff_main)");
         }
     });
+
+    it("DIFF - Whitespace", () =>
+    {
+        // Ignore all whitespace.
+        dmp.diffWhitespace = DiffWhitespace.IGNORE_ALL;
+        let a = "if (a) {\n  b();\n}\n";
+        let b = "if(a){\n    b( );\n}\n";
+        let diffs = dmp.diff_main(a, b);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "if"],
+            [DiffOperation.DIFF_DELETE, " "],
+            [DiffOperation.DIFF_EQUAL, "(a)"],
+            [DiffOperation.DIFF_DELETE, " "],
+            [DiffOperation.DIFF_EQUAL, "{\n  "],
+            [DiffOperation.DIFF_INSERT, "  "],
+            [DiffOperation.DIFF_EQUAL, "b("],
+            [DiffOperation.DIFF_INSERT, " "],
+            [DiffOperation.DIFF_EQUAL, ");\n}\n"]
+        ]);
+        expect(dmp.diff_text1(diffs)).toEqual(a);
+        expect(dmp.diff_text2(diffs)).toEqual(b);
+        expect(dmp.diff_main("  ", "")).toStrictEqual([[DiffOperation.DIFF_DELETE, "  "]]);
+
+        // Ignore the amount of whitespace.
+        dmp.diffWhitespace = DiffWhitespace.IGNORE_AMOUNT;
+        a = "a  b \nc\td\n";
+        b = "a b\nc  e\n";
+        diffs = dmp.diff_main(a, b);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "a "],
+            [DiffOperation.DIFF_DELETE, " "],
+            [DiffOperation.DIFF_EQUAL, "b"],
+            [DiffOperation.DIFF_DELETE, " "],
+            [DiffOperation.DIFF_EQUAL, "\nc"],
+            [DiffOperation.DIFF_DELETE, "\td"],
+            [DiffOperation.DIFF_INSERT, "  e"],
+            [DiffOperation.DIFF_EQUAL, "\n"]
+        ]);
+        expect(dmp.diff_text1(diffs)).toEqual(a);
+        expect(dmp.diff_text2(diffs)).toEqual(b);
+
+        // Ignore blank lines, along with the amount of whitespace.
+        dmp.diffWhitespace = DiffWhitespace.IGNORE_AMOUNT | DiffWhitespace.IGNORE_BLANK_LINES;
+        a = "a\n\nb\n";
+        b = "a \nb\n  \nc\n";
+        diffs = dmp.diff_main(a, b);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "a"],
+            [DiffOperation.DIFF_DELETE, "\n"],
+            [DiffOperation.DIFF_INSERT, " "],
+            [DiffOperation.DIFF_EQUAL, "\nb\n"],
+            [DiffOperation.DIFF_INSERT, "  \nc\n"]
+        ]);
+        expect(dmp.diff_text1(diffs)).toEqual(a);
+        expect(dmp.diff_text2(diffs)).toEqual(b);
+
+        // Blank lines which moved don't change the lines around them.
+        dmp.diffWhitespace = DiffWhitespace.IGNORE_BLANK_LINES;
+        a = "a\n\nb\n";
+        b = "a\nb\n\n\n";
+        diffs = dmp.diff_main(a, b);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "a\n"],
+            [DiffOperation.DIFF_DELETE, "\n"],
+            [DiffOperation.DIFF_EQUAL, "b\n"],
+            [DiffOperation.DIFF_INSERT, "\n\n"]
+        ]);
+        expect(dmp.diff_text1(diffs)).toEqual(a);
+        expect(dmp.diff_text2(diffs)).toEqual(b);
+        dmp.diffWhitespace = DiffWhitespace.NONE;
+    });
+
+    it("DIFF - Case And Normalization", () =>
+    {
+        // Ignore case, which only aligns the texts: both spellings are kept.
+        dmp.diffIgnoreCase = true;
+        let a = "Hello World, bye";
+        let b = "hello world! Bye";
+        let diffs = dmp.diff_main(a, b);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_DELETE, "H"],
+            [DiffOperation.DIFF_INSERT, "h"],
+            [DiffOperation.DIFF_EQUAL, "ello "],
+            [DiffOperation.DIFF_DELETE, "W"],
+            [DiffOperation.DIFF_INSERT, "w"],
+            [DiffOperation.DIFF_EQUAL, "orld"],
+            [DiffOperation.DIFF_DELETE, ","],
+            [DiffOperation.DIFF_INSERT, "!"],
+            [DiffOperation.DIFF_EQUAL, " "],
+            [DiffOperation.DIFF_DELETE, "b"],
+            [DiffOperation.DIFF_INSERT, "B"],
+            [DiffOperation.DIFF_EQUAL, "ye"]
+        ]);
+        expect(dmp.diff_text1(diffs)).toEqual(a);
+        expect(dmp.diff_text2(diffs)).toEqual(b);
+
+        // Characters which fold into several.
+        a = "Stra\u00DFe";
+        b = "STRASSE";
+        diffs = dmp.diff_main(a, b);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "S"],
+            [DiffOperation.DIFF_DELETE, "tra\u00DFe"],
+            [DiffOperation.DIFF_INSERT, "TRASSE"]
+        ]);
+        expect(dmp.diff_text1(diffs)).toEqual(a);
+        expect(dmp.diff_text2(diffs)).toEqual(b);
+        expect(dmp.patch_apply(dmp.patch_make(a, b), a)).toStrictEqual([b, [true]]);
+
+        // Along with whitespace.
+        dmp.diffWhitespace = DiffWhitespace.IGNORE_ALL;
+        a = "Hello  World";
+        b = "helloWORLD!";
+        diffs = dmp.diff_main(a, b);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_DELETE, "H"],
+            [DiffOperation.DIFF_INSERT, "h"],
+            [DiffOperation.DIFF_EQUAL, "ello"],
+            [DiffOperation.DIFF_DELETE, "  "],
+            [DiffOperation.DIFF_EQUAL, "W"],
+            [DiffOperation.DIFF_DELETE, "orld"],
+            [DiffOperation.DIFF_INSERT, "ORLD!"]
+        ]);
+        expect(dmp.diff_text1(diffs)).toEqual(a);
+        expect(dmp.diff_text2(diffs)).toEqual(b);
+        dmp.diffWhitespace = DiffWhitespace.NONE;
+        dmp.diffIgnoreCase = false;
+
+        // Unicode normalization.
+        a = "Jos\u00E9 Mar\u00EDa";
+        b = "Jose\u0301 Mari\u0301a!";
+        expect(dmp.diff_main(a, b)).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "Jos"],
+            [DiffOperation.DIFF_DELETE, "\u00E9"],
+            [DiffOperation.DIFF_INSERT, "e\u0301"],
+            [DiffOperation.DIFF_EQUAL, " Mar"],
+            [DiffOperation.DIFF_DELETE, "\u00ED"],
+            [DiffOperation.DIFF_INSERT, "i\u0301"],
+            [DiffOperation.DIFF_EQUAL, "a"],
+            [DiffOperation.DIFF_INSERT, "!"]
+        ]);
+        dmp.diffNormalization = "NFC";
+        diffs = dmp.diff_main(a, b);
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "Jos"],
+            [DiffOperation.DIFF_DELETE, "\u00E9"],
+            [DiffOperation.DIFF_INSERT, "e\u0301"],
+            [DiffOperation.DIFF_EQUAL, " Mar"],
+            [DiffOperation.DIFF_DELETE, "\u00ED"],
+            [DiffOperation.DIFF_INSERT, "i\u0301"],
+            [DiffOperation.DIFF_EQUAL, "a"],
+            [DiffOperation.DIFF_INSERT, "!"]
+        ]);
+        expect(dmp.diff_text1(diffs)).toEqual(a);
+        expect(dmp.diff_text2(diffs)).toEqual(b);
+        dmp.diffNormalization = null;
+    });
+
+    it("DIFF - Units", () =>
+    {
+        // Code units split surrogate pairs.
+        expect(dmp.diff_main("\uD83D\uDE00", "\uD83D\uDE03")).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "\uD83D"],
+            [DiffOperation.DIFF_DELETE, "\uDE00"],
+            [DiffOperation.DIFF_INSERT, "\uDE03"]
+        ]);
+
+        // Code points.
+        dmp.diffUnit = DiffUnit.CODE_POINT;
+        let diffs = dmp.diff_main("a\uD83D\uDE00b", "a\uD83D\uDE03b");
+        expect(diffs).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "a"],
+            [DiffOperation.DIFF_DELETE, "\uD83D\uDE00"],
+            [DiffOperation.DIFF_INSERT, "\uD83D\uDE03"],
+            [DiffOperation.DIFF_EQUAL, "b"]
+        ]);
+        expect(dmp.diff_toDelta(diffs)).toEqual("=1\t-2\t+%F0%9F%98%83\t=1");
+        expect(dmp.diff_main("e\u0301", "e\u0300")).toStrictEqual([
+            [DiffOperation.DIFF_EQUAL, "e"],
+            [DiffOperation.DIFF_DELETE, "\u0301"],
+            [DiffOperation.DIFF_INSERT, "\u0300"]
+        ]);
+
+        // Cleanups keep the units.
+        diffs = [[DiffOperation.DIFF_EQUAL, "\uD83D"], [DiffOperation.DIFF_DELETE, "\uDE00"], [DiffOperation.DIFF_INSERT, "\uDE03"]];
+        dmp.diff_cleanupUnits(diffs);
+        expect(diffs).toStrictEqual([[DiffOperation.DIFF_DELETE, "\uD83D\uDE00"], [DiffOperation.DIFF_INSERT, "\uD83D\uDE03"]]);
+        dmp.diff_cleanupMerge(diffs);
+        expect(diffs).toStrictEqual([[DiffOperation.DIFF_DELETE, "\uD83D\uDE00"], [DiffOperation.DIFF_INSERT, "\uD83D\uDE03"]]);
+
+        // Graphemes.
+        dmp.diffUnit = DiffUnit.GRAPHEME;
+        expect(dmp.diff_main("e\u0301", "e\u0300")).toStrictEqual([[DiffOperation.DIFF_DELETE, "e\u0301"], [DiffOperation.DIFF_INSERT, "e\u0300"]]);
+        expect(dmp.diff_main("\uD83D\uDC4D\uD83C\uDFFB ok", "\uD83D\uDC4D\uD83C\uDFFD ok")).toStrictEqual([
+            [DiffOperation.DIFF_DELETE, "\uD83D\uDC4D\uD83C\uDFFB"],
+            [DiffOperation.DIFF_INSERT, "\uD83D\uDC4D\uD83C\uDFFD"],
+            [DiffOperation.DIFF_EQUAL, " ok"]
+        ]);
+        dmp.diffUnit = DiffUnit.CODE_UNIT;
+    });
+
+    it("DIFF - Main Async", async () =>
+    {
+        // Same result as the synchronous diff.
+        let a = "The quick brown fox jumps over the lazy dog.\nThat's all.\n";
+        let b = "That quick brown fox jumped over a lazy dog.\nThat's it.\n";
+        expect(await dmp.diff_mainAsync(a, b)).toStrictEqual(dmp.diff_main(a, b));
+        expect(await dmp.diff_mainAsync(a, b, false)).toStrictEqual(dmp.diff_main(a, b, false));
+
+        // Cancel before starting.
+        let controller = new AbortController();
+        controller.abort(new Error("Cancelled."));
+        await expect(dmp.diff_mainAsync(a, b, false, controller.signal)).rejects.toThrow("Cancelled.");
+
+        // Cancel while running.
+        a = "`Twas brillig, and the slithy toves\nDid gyre and gimble in the wabe:\nAll mimsy were the borogoves,\nAnd the mome raths outgrabe.\n";
+        b = "I am the very model of a modern major general,\nI've information vegetable, animal, and mineral,\nI know the kings of England, and I quote the fights historical,\nFrom Marathon to Waterloo, in order categorical.\n";
+        for (let x = 0; x < 10; x++)
+        {
+            a += a;
+            b += b;
+        }
+        dmp.diffTimeout = 0;
+        controller = new AbortController();
+        setTimeout(() => controller.abort(new Error("Cancelled.")), 10);
+        await expect(dmp.diff_mainAsync(a, b, false, controller.signal)).rejects.toThrow("Cancelled.");
+        dmp.diffTimeout = 1;
+    });
+
+    it("DIFF - Main With Metadata", () =>
+    {
+        // Same diff as diff_main.
+        let result = dmp.diff_mainWithMetadata("cat", "map");
+        expect(result.diffs).toStrictEqual(dmp.diff_main("cat", "map"));
+        expect(result.truncated).toBe(false);
+        expect(result.elapsed).toBeGreaterThanOrEqual(0);
+        expect(result.strategies).toStrictEqual([DiffStrategy.BISECT]);
+
+        // Trivial diffs need no strategy.
+        expect(dmp.diff_mainWithMetadata("abc", "ab").strategies).toStrictEqual([]);
+
+        // Half-match.
+        result = dmp.diff_mainWithMetadata("1234567890", "a345678z");
+        expect(result.strategies).toStrictEqual([DiffStrategy.HALF_MATCH]);
+
+        // Line mode.
+        let a = "1234567890\n1234567890\n1234567890\n1234567890\n1234567890\n1234567890\n1234567890\n1234567890\n1234567890\n1234567890\n1234567890\n1234567890\n1234567890\n";
+        let b = "abcdefghij\nabcdefghij\nabcdefghij\nabcdefghij\nabcdefghij\nabcdefghij\nabcdefghij\nabcdefghij\nabcdefghij\nabcdefghij\nabcdefghij\nabcdefghij\nabcdefghij\n";
+        result = dmp.diff_mainWithMetadata(a, b);
+        expect(result.diffs).toStrictEqual(dmp.diff_main(a, b));
+        expect(result.strategies[0]).toBe(DiffStrategy.LINE_MODE);
+
+        // Token mode.
+        result = dmp.diff_mainWithMetadata("a b", "a c", { tokenize: (text) => text.split(/(?<= )/) });
+        expect(result.strategies[0]).toBe(DiffStrategy.TOKEN_MODE);
+
+        // Truncated.
+        a = "`Twas brillig, and the slithy toves\nDid gyre and gimble in the wabe:\nAll mimsy were the borogoves,\nAnd the mome raths outgrabe.\n";
+        b = "I am the very model of a modern major general,\nI've information vegetable, animal, and mineral,\nI know the kings of England, and I quote the fights historical,\nFrom Marathon to Waterloo, in order categorical.\n";
+        dmp.diffBudget = 10;
+        result = dmp.diff_mainWithMetadata(a, b, false);
+        expect(result.truncated).toBe(true);
+        expect(dmp.diff_text1(result.diffs)).toEqual(a);
+        expect(dmp.diff_text2(result.diffs)).toEqual(b);
+        dmp.diffBudget = 0;
+        expect(dmp.diff_mainWithMetadata(a, b, false).truncated).toBe(false);
+    });
     //#endregion DIFF TEST FUNCTIONS
 
     //#region MATCH TEST FUNCTIONS
@@ -898,6 +1741,83 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
             expect(e.message).toEqual("Null input. (match_main)");
         }
     });
+
+    it("MATCH - Case And Normalization", () =>
+    {
+        // Ignore case.
+        dmp.matchIgnoreCase = true;
+        expect(10).toEqual(dmp.match_main("The Quick Brown Fox", "brown fox", 10));
+        expect(7).toEqual(dmp.match_main("\u1E9Etraße STRASSE", "strasse", 9));
+        dmp.matchIgnoreCase = false;
+
+        // Unicode normalization, in the indices of the original text.
+        dmp.matchNormalization = "NFC";
+        expect(6).toEqual(dmp.match_main("Jose\u0301 Mari\u0301a", "Mar\u00EDa", 0));
+        expect(0).toEqual(dmp.match_main("Jose\u0301", "Jos\u00E9", 0));
+        dmp.matchNormalization = null;
+    });
+
+    it("MATCH - Similarity", () =>
+    {
+        // Levenshtein.
+        expect(dmp.match_levenshtein("", "")).toEqual(0);
+        expect(dmp.match_levenshtein("kitten", "sitting")).toEqual(3);
+        expect(dmp.match_levenshtein("kitten", "sitting", 2)).toEqual(3);
+        expect(dmp.match_levenshtein("kitten", "sitting", 5)).toEqual(3);
+        expect(dmp.match_levenshtein("a", "abcdef", 2)).toEqual(3);
+        expect(dmp.match_normalizedDistance("kitten", "sitting")).toEqual(3 / 7);
+        expect(dmp.match_normalizedDistance("", "")).toEqual(0);
+
+        // Ratios, same as difflib.
+        expect(dmp.match_ratio("abcd", "bcde")).toEqual(0.75);
+        expect(dmp.match_ratio("", "")).toEqual(1);
+        expect(dmp.match_ratio("abc", "xyz")).toEqual(0);
+        expect(dmp.match_quickRatio("abcd", "dcba")).toEqual(1);
+        expect(dmp.match_quickRatio("abcd", "bcde")).toEqual(0.75);
+        expect(dmp.match_realQuickRatio("ab", "abcdef")).toEqual(0.5);
+
+        // Large similar texts take time proportional to their distance.
+        const a = "abcdefghijklmnopqrstuvwxy".repeat(800);
+        const b = a.substring(0, 10000) + "!" + a.substring(10001);
+        dmp.diffTimeout = 0;
+        expect(dmp.match_levenshtein(a, b)).toEqual(1);
+        expect(dmp.match_levenshtein(a, b + "xyz", 2)).toEqual(3);
+        expect(dmp.match_ratio(a, b)).toEqual(2 * 19999 / 40000);
+
+        // Dissimilar texts stop at the timeout, with the distance of a diff.
+        dmp.diffTimeout = 0.01;
+        const c = "zyxwvutsrqponmlkjihgfedcb".repeat(800);
+        const startTime = Date.now();
+        expect(dmp.match_levenshtein(a, c)).toBeLessThanOrEqual(20000);
+        expect(Date.now() - startTime).toBeLessThan(1000);
+        dmp.diffTimeout = 1;
+    });
+
+    it("MATCH - Rank By Similarity", () =>
+    {
+        const candidates = ["apple", "ape", "peach", "puppy", "APPLE", "appel"];
+        expect(dmp.rankBySimilarity("appel", candidates)).toStrictEqual([
+            { candidate: "appel", index: 5, score: 1 },
+            { candidate: "apple", index: 0, score: 0.8 },
+            { candidate: "ape", index: 1, score: 0.75 },
+            { candidate: "peach", index: 2, score: 0.4 },
+            { candidate: "puppy", index: 3, score: 0.4 },
+            { candidate: "APPLE", index: 4, score: 0 }
+        ]);
+
+        // Limit and cutoff.
+        expect(dmp.rankBySimilarity("appel", candidates, { limit: 2 }).map((match) => match.index)).toStrictEqual([5, 0]);
+        expect(dmp.rankBySimilarity("appel", candidates, { cutoff: 0.5 }).map((match) => match.index)).toStrictEqual([5, 0, 1]);
+        expect(dmp.rankBySimilarity("appel", candidates, { limit: 0 })).toStrictEqual([]);
+
+        // Ignore case.
+        dmp.matchIgnoreCase = true;
+        expect(dmp.rankBySimilarity("apple", candidates, { limit: 2 })).toStrictEqual([
+            { candidate: "apple", index: 0, score: 1 },
+            { candidate: "APPLE", index: 4, score: 1 }
+        ]);
+        dmp.matchIgnoreCase = false;
+    });
     //#endregion MATCH TEST FUNCTIONS
 
     //#region PATCH TEST FUNCTIONS
@@ -1161,5 +2081,311 @@ describe("diff-match-patch-ts - core/DiffMatchPatch", () =>
         results = dmp.patch_apply(patches, "x");
         expect(["x123", [true]]).toStrictEqual(results);
     });
+
+    it("PATCH - Units", () =>
+    {
+        const text1 = "\uD83D\uDE00\uD83D\uDE00\uD83D\uDE00ab\uD83D\uDE00\uD83D\uDE00\uD83D\uDE00";
+        const text2 = "\uD83D\uDE00\uD83D\uDE00\uD83D\uDE00ac\uD83D\uDE00\uD83D\uDE00\uD83D\uDE00";
+        // The context splits a surrogate pair.
+        expect(() => dmp.patch_toText(dmp.patch_make(text1, text2))).toThrow("URI malformed");
+
+        // Code points.
+        dmp.diffUnit = DiffUnit.CODE_POINT;
+        let patches = dmp.patch_make(text1, text2);
+        expect(dmp.patch_toText(patches)).toEqual("@@ -3,10 +3,10 @@\n %F0%9F%98%80%F0%9F%98%80a\n-b\n+c\n %F0%9F%98%80%F0%9F%98%80\n");
+        expect(dmp.patch_apply(patches, text1)).toStrictEqual([text2, [true]]);
+
+        // Split patches.
+        patches = dmp.patch_make("\uD83D\uDE03".repeat(40), "x" + "\uD83D\uDE00".repeat(40) + "y");
+        dmp.patch_splitMax(patches);
+        expect(dmp.patch_fromText(dmp.patch_toText(patches))).toStrictEqual(patches);
+        dmp.diffUnit = DiffUnit.CODE_UNIT;
+    });
+
+    it("PATCH - Unified Diff", () =>
+    {
+        // Null case.
+        expect(dmp.toUnifiedDiff("abc\n", "abc\n")).toEqual("");
+
+        // Empty texts.
+        expect(dmp.toUnifiedDiff("", "abc\n")).toEqual("--- a\n+++ b\n@@ -0,0 +1 @@\n+abc\n");
+        expect(dmp.toUnifiedDiff("abc\n", "")).toEqual("--- a\n+++ b\n@@ -1 +0,0 @@\n-abc\n");
+
+        // Context and hunks.
+        const lines = ["1\n", "2\n", "3\n", "4\n", "5\n", "6\n", "7\n", "8\n", "9\n", "10\n"];
+        const text1 = lines.join("");
+        const text2 = lines.join("").replace("2\n", "two\n").replace("9\n", "");
+        expect(dmp.toUnifiedDiff(text1, text2)).toEqual(
+            "--- a\n+++ b\n@@ -1,10 +1,9 @@\n 1\n-2\n+two\n 3\n 4\n 5\n 6\n 7\n 8\n-9\n 10\n"
+        );
+        expect(dmp.toUnifiedDiff(text1, text2, { context: 1, fromFile: "a/file.txt", toFile: "b/file.txt" })).toEqual(
+            "--- a/file.txt\n+++ b/file.txt\n@@ -1,3 +1,3 @@\n 1\n-2\n+two\n 3\n@@ -8,3 +8,2 @@\n 8\n-9\n 10\n"
+        );
+
+        // Missing newline at end of file.
+        expect(dmp.toUnifiedDiff("a\nb\n", "a\nb")).toEqual(
+            "--- a\n+++ b\n@@ -1,2 +1,2 @@\n a\n-b\n+b\n\\ No newline at end of file\n"
+        );
+
+        // Null inputs.
+        expect(() => dmp.toUnifiedDiff(null as any, null as any)).toThrow();
+    });
+
+    it("PATCH - From Unified Diff", () =>
+    {
+        // Null case.
+        expect(dmp.fromUnifiedDiff("")).toStrictEqual([]);
+
+        // Multiple files of git.
+        const text = [
+            "diff --git a/x.txt b/x.txt",
+            "index 4cb29ea..047ece5 100644",
+            "--- a/x.txt",
+            "+++ b/x.txt",
+            "@@ -1,3 +1,4 @@ section",
+            " one",
+            "-two",
+            "+2",
+            " three",
+            "+four",
+            "\\ No newline at end of file",
+            "diff --git a/y.txt b/y.txt",
+            "deleted file mode 100644",
+            "--- a/y.txt\t2024-01-01 00:00:00",
+            "+++ /dev/null",
+            "@@ -1 +0,0 @@",
+            "-keep",
+            "diff --git a/old.txt b/new.txt",
+            "similarity index 100%",
+            "rename from old.txt",
+            "rename to new.txt",
+            ""
+        ].join("\n");
+        const files = dmp.fromUnifiedDiff(text);
+        expect(files).toStrictEqual([
+            {
+                fromFile: "a/x.txt",
+                toFile: "b/x.txt",
+                hunks: [{
+                    start1: 0,
+                    length1: 3,
+                    start2: 0,
+                    length2: 4,
+                    diffs: [
+                        [DiffOperation.DIFF_EQUAL, "one\n"],
+                        [DiffOperation.DIFF_DELETE, "two\n"],
+                        [DiffOperation.DIFF_INSERT, "2\n"],
+                        [DiffOperation.DIFF_EQUAL, "three\n"],
+                        [DiffOperation.DIFF_INSERT, "four"]
+                    ]
+                }]
+            },
+            {
+                fromFile: "a/y.txt",
+                toFile: "/dev/null",
+                hunks: [{ start1: 0, length1: 1, start2: 0, length2: 0, diffs: [[DiffOperation.DIFF_DELETE, "keep\n"]] }]
+            },
+            { fromFile: "a/old.txt", toFile: "b/new.txt", hunks: [] }
+        ]);
+
+        // Apply with fuzzy matching.
+        let patches = dmp.patch_fromUnifiedDiff(files[0].hunks, "one\ntwo\nthree\n");
+        expect(patches[0].start1).toEqual(0);
+        expect(dmp.patch_apply(patches, "zero\none\ntwo\nthree\n")).toStrictEqual(["zero\none\n2\nthree\nfour", [true]]);
+
+        // Round trip, with lines which look like headers.
+        const lines = ["1\n", "2\n", "3\n", "4\n", "5\n", "6\n", "7\n", "8\n", "9\n", "10\n"];
+        const text1 = lines.join("");
+        const text2 = text1.replace("2\n", "--- 2\n+++ 2\n").replace("9\n", "@@ -1 +1 @@\n");
+        const hunks = dmp.fromUnifiedDiff(dmp.toUnifiedDiff(text1, text2, { context: 1 }))[0].hunks;
+        expect(hunks.map((hunk) => [hunk.start1, hunk.length1, hunk.start2, hunk.length2])).toStrictEqual([[0, 3, 0, 4], [7, 3, 8, 3]]);
+        patches = dmp.patch_fromUnifiedDiff(hunks, text1);
+        // Hunks start at "8\n", with 4 characters of context from the text.
+        expect(patches[1].start1).toEqual(14 - 4);
+        expect(patches[1].start2).toEqual(24 - 4);
+        expect(dmp.patch_apply(patches, text1)).toStrictEqual([text2, [true, true]]);
+
+        // Hunks without context, in the middle of the text.
+        const greek = "alpha\nbeta\ngamma\ndelta\nepsilon\nzeta\neta\n";
+        patches = dmp.patch_fromUnifiedDiff(dmp.fromUnifiedDiff("--- a\n+++ b\n@@ -3 +3 @@\n-gamma\n+GAMMA\n")[0].hunks, greek);
+        expect(dmp.patch_apply(patches, greek)).toStrictEqual([greek.replace("gamma", "GAMMA"), [true]]);
+        const text3 = ["1\n", "2\n", "3\n", "4\n", "5\n", "6\n", "7\n", "8\n", "9\n", "10\n", "11\n", "12\n"].join("");
+        const text4 = text3.replace("3\n", "three\n").replace("10\n", "ten\n");
+        patches = dmp.patch_fromUnifiedDiff(dmp.fromUnifiedDiff(dmp.toUnifiedDiff(text3, text4, { context: 0 }))[0].hunks, text3);
+        expect(dmp.patch_apply(patches, text3)).toStrictEqual([text4, [true, true]]);
+
+        // Invalid hunks.
+        expect(() => dmp.fromUnifiedDiff("@@ -1,2 +1,2 @@\n a\n")).toThrow("Unterminated hunk");
+        expect(() => dmp.fromUnifiedDiff("@@ -1 +1 @@\n*a\n")).toThrow("Invalid patch mode");
+    });
+
+    it("PATCH - Ansi", () =>
+    {
+        const patches = dmp.patch_make("abc def", "abc xyz");
+        expect(dmp.patch_ansi(patches)).toEqual("\x1b[36m@@ -1,7 +1,7 @@\x1b[39m\nabc \x1b[31mdef\x1b[39m\x1b[32mxyz\x1b[39m\n");
+        expect(dmp.patch_ansi(patches, { color: false, markers: true })).toEqual("@@ -1,7 +1,7 @@\nabc [-def-]{+xyz+}\n");
+    });
+
+    it("PATCH - JSON", () =>
+    {
+        const text1 = "The quick brown fox jumps over the lazy dog.";
+        const text2 = "That quick brown fox jumped over a lazy dog.";
+        const patches = dmp.patch_make(text1, text2);
+        const json = dmp.patch_toJSON(patches);
+        expect(json.version).toEqual(1);
+        expect(json.patches[0]).toStrictEqual({
+            diffs: patches[0].diffs,
+            start1: patches[0].start1,
+            start2: patches[0].start2,
+            length1: patches[0].length1,
+            length2: patches[0].length2
+        });
+
+        // Round trip.
+        const copy = dmp.patch_fromJSON(JSON.stringify(json));
+        expect(copy[0]).toBeInstanceOf(PatchObject);
+        expect(dmp.patch_toText(copy)).toEqual(dmp.patch_toText(patches));
+        expect(dmp.patch_apply(copy, text1)[0]).toEqual(text2);
+
+        // Malformed documents.
+        const patch = { diffs: [[0, "ab"], [1, "c"]], start1: 0, start2: 0, length1: 2, length2: 3 };
+        expect(dmp.patch_fromJSON({ version: 1, patches: [patch] })).toHaveLength(1);
+        expect(() => dmp.patch_fromJSON({ version: 1, patches: [1] })).toThrow("Invalid JSON in patch_fromJSON: patches[0] must be an object");
+        expect(() => dmp.patch_fromJSON({ version: 1, patches: [{ ...patch, start2: -1 }] })).toThrow(
+            "Invalid JSON in patch_fromJSON: patches[0].start2 must be a non-negative integer"
+        );
+        expect(() => dmp.patch_fromJSON({ version: 1, patches: [{ ...patch, diffs: [[0]] }] })).toThrow(
+            "Invalid JSON in patch_fromJSON: patches[0].diffs[0] must be a tuple of [op, text]"
+        );
+        expect(() => dmp.patch_fromJSON({ version: 1, patches: [{ ...patch, length2: 2 }] })).toThrow(
+            "Invalid JSON in patch_fromJSON: patches[0] has lengths which do not match its diffs"
+        );
+    });
     //#endregion PATCH TEST FUNCTIONS
+
+    //#region MERGE TEST FUNCTIONS
+    it("MERGE - Merge3", () =>
+    {
+        // Null case.
+        expect(dmp.merge3("", "", "")).toStrictEqual([]);
+
+        // No changes.
+        expect(dmp.merge3("a\nb\n", "a\nb\n", "a\nb\n")).toStrictEqual([
+            { type: MergeHunkType.UNCHANGED, base: "a\nb\n", ours: "a\nb\n", theirs: "a\nb\n" }
+        ]);
+
+        // Changes on either side.
+        expect(dmp.merge3("a\nb\nc\nd\ne\n", "a\nB\nc\nd\ne\n", "a\nb\nc\nD\ne\n")).toStrictEqual([
+            { type: MergeHunkType.UNCHANGED, base: "a\n", ours: "a\n", theirs: "a\n" },
+            { type: MergeHunkType.OURS, base: "b\n", ours: "B\n", theirs: "b\n" },
+            { type: MergeHunkType.UNCHANGED, base: "c\n", ours: "c\n", theirs: "c\n" },
+            { type: MergeHunkType.THEIRS, base: "d\n", ours: "d\n", theirs: "D\n" },
+            { type: MergeHunkType.UNCHANGED, base: "e\n", ours: "e\n", theirs: "e\n" }
+        ]);
+
+        // Same change on both sides.
+        expect(dmp.merge3("a\nb\nc\n", "a\nX\nc\n", "a\nX\nc\n")).toStrictEqual([
+            { type: MergeHunkType.UNCHANGED, base: "a\n", ours: "a\n", theirs: "a\n" },
+            { type: MergeHunkType.BOTH_SAME, base: "b\n", ours: "X\n", theirs: "X\n" },
+            { type: MergeHunkType.UNCHANGED, base: "c\n", ours: "c\n", theirs: "c\n" }
+        ]);
+
+        // Conflict.
+        expect(dmp.merge3("a\nb\nc\n", "a\nX\nc\n", "a\nY\nY\nc\n")).toStrictEqual([
+            { type: MergeHunkType.UNCHANGED, base: "a\n", ours: "a\n", theirs: "a\n" },
+            { type: MergeHunkType.CONFLICT, base: "b\n", ours: "X\n", theirs: "Y\nY\n" },
+            { type: MergeHunkType.UNCHANGED, base: "c\n", ours: "c\n", theirs: "c\n" }
+        ]);
+
+        // Insertions and deletions at the edges.
+        expect(dmp.merge3("a\nb\n", "b\n", "a\nb\nc")).toStrictEqual([
+            { type: MergeHunkType.OURS, base: "a\n", ours: "", theirs: "a\n" },
+            { type: MergeHunkType.UNCHANGED, base: "b\n", ours: "b\n", theirs: "b\n" },
+            { type: MergeHunkType.THEIRS, base: "", ours: "", theirs: "c" }
+        ]);
+
+        // Test null inputs.
+        try
+        {
+            dmp.merge3(null as any, "", "");
+            fail("Should generates error of null inputs");
+        }
+        catch (e: any)
+        {
+            // Exception expected.
+            expect(e.message).toEqual("Null input. (merge3)");
+        }
+    });
+
+    it("MERGE - To Text", () =>
+    {
+        // Resolved hunks.
+        let hunks = dmp.merge3("a\nb\nc\nd\n", "a\nB\nc\nd\n", "a\nb\nc\nD\n");
+        expect(dmp.merge_toText(hunks)).toEqual("a\nB\nc\nD\n");
+
+        // Conflict.
+        hunks = dmp.merge3("a\nb\nc\n", "a\nX\nc\n", "a\nY\nc\n");
+        expect(dmp.merge_toText(hunks)).toEqual("a\n<<<<<<< ours\nX\n||||||| base\nb\n=======\nY\n>>>>>>> theirs\nc\n");
+
+        // Labels, and markers on a line of their own.
+        hunks = dmp.merge3("a\nb", "a\nX", "a\n");
+        expect(dmp.merge_toText(hunks, { ours: "HEAD", theirs: "feature" })).toEqual(
+            "a\n<<<<<<< HEAD\nX\n||||||| base\nb\n=======\n>>>>>>> feature\n"
+        );
+        expect(dmp.merge_toText(hunks, { base: "" })).toEqual("a\n<<<<<<< ours\nX\n|||||||\nb\n=======\n>>>>>>> theirs\n");
+
+        // The missing newlines are restored from the texts of the sides.
+        expect(dmp.merge_fromText(dmp.merge_toText(hunks))).toStrictEqual([
+            { type: MergeHunkType.UNCHANGED, base: "a\n", ours: "a\n", theirs: "a\n" },
+            { type: MergeHunkType.CONFLICT, base: "b\n", ours: "X\n", theirs: "" }
+        ]);
+        expect(dmp.merge_fromText(dmp.merge_toText(hunks), "a\nb", "a\nX", "a\n")).toStrictEqual(hunks);
+
+        // No base.
+        hunks = [{ type: MergeHunkType.CONFLICT, base: null, ours: "X\n", theirs: "Y" }];
+        expect(dmp.merge_toText(hunks)).toEqual("<<<<<<< ours\nX\n=======\nY\n>>>>>>> theirs\n");
+        expect(dmp.merge_fromText(dmp.merge_toText(hunks), undefined, "X\n", "Y")).toStrictEqual(hunks);
+    });
+
+    it("MERGE - From Text", () =>
+    {
+        // Null case.
+        expect(dmp.merge_fromText("")).toStrictEqual([]);
+
+        // Round trip.
+        const hunks = dmp.merge_fromText("a\n<<<<<<< ours\nX\n||||||| base\nb\n=======\nY\n>>>>>>> theirs\nc\n");
+        expect(hunks).toStrictEqual([
+            { type: MergeHunkType.UNCHANGED, base: "a\n", ours: "a\n", theirs: "a\n" },
+            { type: MergeHunkType.CONFLICT, base: "b\n", ours: "X\n", theirs: "Y\n" },
+            { type: MergeHunkType.UNCHANGED, base: "c\n", ours: "c\n", theirs: "c\n" }
+        ]);
+        expect(dmp.merge_toText(hunks)).toEqual("a\n<<<<<<< ours\nX\n||||||| base\nb\n=======\nY\n>>>>>>> theirs\nc\n");
+
+        // No base, and markers in resolved text.
+        expect(dmp.merge_fromText("=======\n<<<<<<< HEAD\r\nX Y\r\n=======\r\nX Z\r\n>>>>>>> feature\r\n")).toStrictEqual([
+            { type: MergeHunkType.UNCHANGED, base: "=======\n", ours: "=======\n", theirs: "=======\n" },
+            { type: MergeHunkType.CONFLICT, base: null, ours: "X Y\r\n", theirs: "X Z\r\n" }
+        ]);
+
+        // Empty base.
+        expect(dmp.merge_fromText("<<<<<<< ours\nX\n||||||| base\n=======\nY\n>>>>>>> theirs\n")).toStrictEqual([
+            { type: MergeHunkType.CONFLICT, base: "", ours: "X\n", theirs: "Y\n" }
+        ]);
+
+        // Diff both sides of a conflict.
+        expect(dmp.merge_diffSides(hunks[1])).toStrictEqual([[DiffOperation.DIFF_DELETE, "X"], [DiffOperation.DIFF_INSERT, "Y"], [DiffOperation.DIFF_EQUAL, "\n"]]);
+
+        // Unterminated conflict.
+        try
+        {
+            dmp.merge_fromText("<<<<<<< ours\nX\n=======\nY\n");
+            fail("Should generates error of unterminated conflict");
+        }
+        catch (e: any)
+        {
+            // Exception expected.
+            expect(e.message).toEqual("Unterminated conflict: <<<<<<< ours\n");
+        }
+    });
+    //#endregion MERGE TEST FUNCTIONS
 });